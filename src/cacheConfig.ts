@@ -0,0 +1,29 @@
+/** @format */
+
+// Response cache settings. Each can be overridden by the environment variable noted beside it.
+export const cacheConfig = {
+  // CACHE_BACKEND: "auto" (Cloudflare cache when available, memory otherwise), "memory",
+  // "filesystem", "cloudflare", "kv" or "none"
+  backend: "auto",
+  // Memory backend capacity, counted separately for searches, downloads and ids
+  memoryMaxEntries: 1000, // CACHE_MEMORY_MAX_ENTRIES, searches and anything else
+  memoryMaxDownloads: 200, // CACHE_MEMORY_MAX_DOWNLOADS, subtitle files
+  memoryMaxIds: 5000, // CACHE_MEMORY_MAX_IDS, ID mappings and subtitle content traits
+  directory: ".cache/responses", // CACHE_DIR, for the filesystem backend
+  kvBinding: "SUBTITLE_CACHE", // CACHE_KV_BINDING, the Workers KV namespace binding
+  staleWhileRevalidateSeconds: 86_400, // CACHE_STALE_SECONDS
+  // Searches that found nothing, kept briefly so obscure titles are not re-scraped every time
+  emptyResultTtlSeconds: 3_600, // CACHE_EMPTY_TTL_SECONDS
+  // Search lifetime by how long ago the title or episode came out (TMDB release/air date):
+  // the first tier the title is younger than applies
+  recencyTiers: [
+    { maxAgeDays: 2, ttlSeconds: 900 },
+    { maxAgeDays: 14, ttlSeconds: 10_800 },
+    { maxAgeDays: 90, ttlSeconds: 86_400 },
+    { maxAgeDays: 365, ttlSeconds: 259_200 },
+  ],
+  catalogueTtlSeconds: 2_592_000, // CACHE_CATALOGUE_TTL_SECONDS, for titles older than every tier
+  // IMDb/TMDB/TVDB/AniDB mappings, kept in the same backend; ids rarely change once assigned
+  idMappingTtlSeconds: 2_592_000, // CACHE_ID_TTL_SECONDS
+  missingIdTtlSeconds: 86_400, // CACHE_MISSING_ID_TTL_SECONDS, for ids TMDB does not know yet
+};
@@ -0,0 +1,47 @@
+/** @format */
+
+import { createErrorResponse } from "~/utils/utils";
+import { getCacheBackend, purgeCache } from "~/utils/cache";
+import { adminResponse, hasCacheFilter, parseCacheFilter, requireAdmin } from "~/utils/admin";
+import { forgetIds } from "~/utils/idMapping";
+
+// Purge entries by title, id, season, episode, source or type; `all=true` empties the cache
+export default defineEventHandler(async (event) => {
+  const denied = requireAdmin(event);
+  if (denied) {
+    return denied;
+  }
+
+  const query = getQuery(event);
+  const filter = parseCacheFilter(query);
+  if (filter instanceof Response) {
+    return filter;
+  }
+  if (!hasCacheFilter(filter) && query.all !== "true") {
+    return createErrorResponse(
+      400,
+      "Missing filter",
+      "Name what to purge by title, id, season, episode, source or type, or pass all=true.",
+      "/admin/cache?id=tt0944947&season=1&episode=1",
+    );
+  }
+
+  const backend = getCacheBackend(event);
+  if (!backend) {
+    return createErrorResponse(503, "Cache disabled", "No cache backend is configured.");
+  }
+
+  const keys = await purgeCache(backend, filter);
+  // This instance also keeps recent ids in memory. Purging every id clears them all, since
+  // other instances' entries in the Cloudflare cache cannot be listed.
+  const { prefix, ...tagFilters } = filter;
+  const purgesAllIds = (!prefix || prefix === "ids:") && !hasCacheFilter(tagFilters);
+  forgetIds(purgesAllIds ? undefined : keys);
+  return adminResponse({
+    backend: backend.name,
+    // Entries other instances stored in the Cloudflare cache cannot be found to purge
+    complete: backend.listsAllKeys,
+    purged: keys.length,
+    keys,
+  });
+});
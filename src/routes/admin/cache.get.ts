@@ -0,0 +1,42 @@
+/** @format */
+
+import { createErrorResponse } from "~/utils/utils";
+import { getCacheBackend, matchesCacheFilter } from "~/utils/cache";
+import { adminResponse, parseCacheFilter, requireAdmin } from "~/utils/admin";
+
+// List cached entries, newest first, narrowed by title, id, season, episode, source or type
+export default defineEventHandler(async (event) => {
+  const denied = requireAdmin(event);
+  if (denied) {
+    return denied;
+  }
+
+  const filter = parseCacheFilter(getQuery(event));
+  if (filter instanceof Response) {
+    return filter;
+  }
+
+  const backend = getCacheBackend(event);
+  if (!backend) {
+    return createErrorResponse(503, "Cache disabled", "No cache backend is configured.");
+  }
+
+  const entries = (await backend.list())
+    .filter((listing) => matchesCacheFilter(listing, filter))
+    .sort((a, b) => b.storedAt - a.storedAt)
+    .map((listing) => ({
+      key: listing.key,
+      status: listing.status,
+      storedAt: new Date(listing.storedAt).toISOString(),
+      freshUntil: new Date(listing.storedAt + listing.ttlSeconds * 1000).toISOString(),
+      tags: listing.tags ?? {},
+    }));
+
+  return adminResponse({
+    backend: backend.name,
+    // The Cloudflare cache cannot be listed; only entries this instance stored are shown
+    complete: backend.listsAllKeys,
+    total: entries.length,
+    entries,
+  });
+});
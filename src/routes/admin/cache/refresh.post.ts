@@ -0,0 +1,52 @@
+/** @format */
+
+import { createErrorResponse } from "~/utils/utils";
+import { refreshCachedResponse } from "~/utils/cache";
+import { adminResponse, requireAdmin } from "~/utils/admin";
+import { getSearchCacheKey, produceSearchResponse } from "~/utils/searchCache";
+
+// Query parameters as getQuery() reads them: repeated names become arrays
+function toQueryRecord(params: URLSearchParams): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const name of new Set(params.keys())) {
+    const values = params.getAll(name);
+    record[name] = values.length === 1 ? values[0] : values;
+  }
+  return record;
+}
+
+// Run a search again and overwrite its cached entry, e.g. after a source served broken data
+export default defineEventHandler(async (event) => {
+  const denied = requireAdmin(event);
+  if (denied) {
+    return denied;
+  }
+
+  let body: { url?: unknown } | undefined;
+  try {
+    body = await readBody(event);
+  } catch {
+    return createErrorResponse(400, "Bad request", "The request body must be valid JSON.");
+  }
+
+  let url: URL | null = null;
+  try {
+    url = typeof body?.url === "string" ? new URL(body.url, getRequestURL(event)) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || url.pathname !== "/search") {
+    return createErrorResponse(
+      400,
+      "Invalid url",
+      "Send the /search URL to refresh as `url` in a JSON body.",
+      '{ "url": "/search?id=tt0944947&season=1&episode=1" }',
+    );
+  }
+
+  const key = getSearchCacheKey(url);
+  const refreshed = await refreshCachedResponse(event, key, () =>
+    produceSearchResponse(toQueryRecord(url.searchParams), null),
+  );
+  return adminResponse({ key, ...refreshed });
+});
@@ -0,0 +1,68 @@
+/** @format */
+
+import { createErrorResponse } from "~/utils/utils";
+import { MOVIE_HASH_CHUNK_SIZE, computeMovieHash } from "~/utils/movieHash";
+
+/**
+ * Compute the OpenSubtitles hash of a video file from its first and last 64 KiB, so clients
+ * never have to upload the whole file. Expects multipart form data with `head` and `tail`
+ * file parts and a `bytesize` field holding the full file size.
+ */
+export default defineEventHandler(async (event) => {
+  let parts: Awaited<ReturnType<typeof readMultipartFormData>>;
+  try {
+    parts = await readMultipartFormData(event);
+  } catch {
+    parts = undefined;
+  }
+
+  const example = "curl -F head=@head.bin -F tail=@tail.bin -F bytesize=12909756 /api/hash";
+  if (!parts) {
+    return createErrorResponse(
+      400,
+      "Bad request",
+      "The request body must be multipart form data with head, tail and bytesize parts.",
+      example,
+    );
+  }
+
+  const getPart = (name: string) => parts.find((part) => part.name === name)?.data;
+  const head = getPart("head");
+  const tail = getPart("tail");
+  const rawByteSize = getPart("bytesize")?.toString("utf8").trim() ?? "";
+  const byteSize = /^\d+$/.test(rawByteSize) ? Number.parseInt(rawByteSize, 10) : NaN;
+
+  if (!Number.isSafeInteger(byteSize) || byteSize < MOVIE_HASH_CHUNK_SIZE) {
+    return createErrorResponse(
+      400,
+      "Invalid bytesize",
+      `bytesize must be the full file size in bytes, at least ${MOVIE_HASH_CHUNK_SIZE}.`,
+      example,
+    );
+  }
+
+  // Both chunks are exactly 64 KiB; for files under 128 KiB they overlap
+  if (head?.length !== MOVIE_HASH_CHUNK_SIZE || tail?.length !== MOVIE_HASH_CHUNK_SIZE) {
+    return createErrorResponse(
+      400,
+      "Invalid chunks",
+      `head and tail must each be exactly ${MOVIE_HASH_CHUNK_SIZE} bytes: the first and last 64 KiB of the file.`,
+      example,
+    );
+  }
+
+  const hash = computeMovieHash(head, tail, byteSize);
+  return new Response(
+    JSON.stringify({
+      hash,
+      bytesize: byteSize,
+      search: `/search?hash=${hash}&bytesize=${byteSize}`,
+    }),
+    {
+      headers: {
+        "content-type": "application/json",
+        "Cache-Control": "no-store",
+      },
+    },
+  );
+});
@@ -1,26 +1,6 @@
 /** @format */
 
-import { createErrorResponse } from "~/utils/utils";
-
-const TMDB_KEYS = ["xxx", "xxx"];
-
-const pickApiKey = () => TMDB_KEYS[Math.floor(Math.random() * TMDB_KEYS.length)];
-
-type RawTmdbResult = {
-  id: number;
-  media_type: string;
-  title?: string;
-  name?: string;
-  original_title?: string;
-  original_name?: string;
-  overview?: string;
-  release_date?: string;
-  first_air_date?: string;
-  poster_path?: string | null;
-  backdrop_path?: string | null;
-  popularity?: number;
-  vote_average?: number;
-};
+import { createErrorResponse, searchTmdbMulti } from "~/utils/utils";
 
 export default defineEventHandler(async (event) => {
   const query = getQuery(event);
@@ -41,16 +21,9 @@ export default defineEventHandler(async (event) => {
   const timeoutId = setTimeout(() => controller.abort(), 12_000);
 
   try {
-    const tmdbUrl = new URL("https://api.themoviedb.org/3/search/multi");
-    tmdbUrl.searchParams.set("query", searchTerm);
-    tmdbUrl.searchParams.set("api_key", pickApiKey());
-    tmdbUrl.searchParams.set("include_adult", "false");
-    tmdbUrl.searchParams.set("language", locale);
+    const rawResults = await searchTmdbMulti(searchTerm, { locale, signal: controller.signal });
 
-    const response = await fetch(tmdbUrl.toString(), { signal: controller.signal });
-
-    if (!response.ok) {
-      console.error(`TMDB search failed with status ${response.status}`);
+    if (!rawResults) {
       return createErrorResponse(
         502,
         "TMDB search failed",
@@ -58,30 +31,24 @@ export default defineEventHandler(async (event) => {
       );
     }
 
-    const payload = await response.json();
-    const rawResults: RawTmdbResult[] = Array.isArray(payload?.results) ? payload.results : [];
-
-    const results = rawResults
-      .filter((item) => item && (item.media_type === "movie" || item.media_type === "tv"))
-      .slice(0, 10)
-      .map((item) => {
-        const releaseDate = item.release_date || item.first_air_date || "";
-        const releaseYear = releaseDate ? releaseDate.slice(0, 4) : null;
+    const results = rawResults.slice(0, 10).map((item) => {
+      const releaseDate = item.release_date || item.first_air_date || "";
+      const releaseYear = releaseDate ? releaseDate.slice(0, 4) : null;
 
-        return {
-          id: item.id,
-          mediaType: item.media_type,
-          title: item.title || item.name || "Untitled",
-          originalTitle: item.original_title || item.original_name || null,
-          overview: item.overview || "",
-          releaseYear,
-          poster: item.poster_path ? `https://image.tmdb.org/t/p/w185${item.poster_path}` : null,
-          backdrop:
-            item.backdrop_path ? `https://image.tmdb.org/t/p/w500${item.backdrop_path}` : null,
-          voteAverage: typeof item.vote_average === "number" ? item.vote_average : null,
-          popularity: typeof item.popularity === "number" ? item.popularity : null,
-        };
-      });
+      return {
+        id: item.id,
+        mediaType: item.media_type,
+        title: item.title || item.name || "Untitled",
+        originalTitle: item.original_title || item.original_name || null,
+        overview: item.overview || "",
+        releaseYear,
+        poster: item.poster_path ? `https://image.tmdb.org/t/p/w185${item.poster_path}` : null,
+        backdrop:
+          item.backdrop_path ? `https://image.tmdb.org/t/p/w500${item.backdrop_path}` : null,
+        voteAverage: typeof item.vote_average === "number" ? item.vote_average : null,
+        popularity: typeof item.popularity === "number" ? item.popularity : null,
+      };
+    });
 
     return new Response(JSON.stringify({ results }), {
       headers: {
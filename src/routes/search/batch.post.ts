@@ -0,0 +1,185 @@
+/** @format */
+
+import {
+  createErrorResponse,
+  isSeasonRequest,
+  readPositiveIntEnv,
+  runWithConcurrency,
+} from "~/utils/utils";
+import { getPublicHost, groupResultsByEpisode } from "~/utils/results";
+import { StaleCursorError, paginate, parsePageRequest } from "~/utils/pagination";
+import { parseSearchQuery, resolveImdbId, runSearchQuery } from "~/utils/searchQuery";
+import { preloadIds, type IdReference } from "~/utils/idMapping";
+
+const BATCH_MAX_QUERIES = readPositiveIntEnv("SEARCH_BATCH_MAX_QUERIES", 100);
+const BATCH_CONCURRENCY = readPositiveIntEnv("SEARCH_BATCH_CONCURRENCY", 4);
+
+type BatchError = { code: number; message: string; details: string };
+
+type BatchEntry =
+  | ({ status: "ok" } & Record<string, unknown>)
+  | { status: "error"; error: BatchError };
+
+// JSON bodies carry numbers, booleans and arrays; /search parameters are comma separated strings
+function toQueryRecord(raw: Record<string, unknown>): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (value === null || value === undefined) continue;
+    if (Array.isArray(value)) {
+      record[key] = value.map(String).join(",");
+    } else if (typeof value !== "object") {
+      record[key] = String(value);
+    }
+  }
+  return record;
+}
+
+async function toBatchError(response: Response): Promise<BatchError> {
+  try {
+    const body = await response.json();
+    return { code: body.code ?? response.status, message: body.message, details: body.details };
+  } catch {
+    return { code: response.status, message: "Search failed", details: response.statusText };
+  }
+}
+
+// The ids a batch names directly; title lookups are resolved query by query
+function collectIdReferences(queries: unknown[]): IdReference[] {
+  const references: IdReference[] = [];
+  for (const query of queries) {
+    if (!query || typeof query !== "object" || Array.isArray(query)) continue;
+    const { id, season } = query as Record<string, unknown>;
+    if (typeof id !== "string" && typeof id !== "number") continue;
+
+    const value = String(id).trim().toLowerCase();
+    if (value.includes("tt")) {
+      references.push({ imdbId: value });
+    } else if (value) {
+      references.push({ tmdbId: value, mediaType: season != null ? "tv" : "movie" });
+    }
+  }
+  return references;
+}
+
+export default defineEventHandler(async (event) => {
+  let body: unknown;
+  try {
+    body = await readBody(event);
+  } catch {
+    return createErrorResponse(400, "Bad request", "The request body must be valid JSON.");
+  }
+
+  const queries: unknown[] | null =
+    Array.isArray(body) ? body
+    : body && typeof body === "object" && "queries" in body && Array.isArray(body.queries) ?
+      body.queries
+    : null;
+
+  if (!queries) {
+    return createErrorResponse(
+      400,
+      "Bad request",
+      "The request body must be an array of search queries, or an object with a `queries` array.",
+      '[{"id":"tt0944947","season":1,"episode":1,"language":"en"}]',
+    );
+  }
+
+  if (queries.length === 0 || queries.length > BATCH_MAX_QUERIES) {
+    return createErrorResponse(
+      400,
+      "Invalid batch size",
+      `A batch must contain between 1 and ${BATCH_MAX_QUERIES} queries.`,
+    );
+  }
+
+  const host = getPublicHost();
+  // Ids repeat across a batch (every episode of a show); resolve each one once, up front
+  await preloadIds(collectIdReferences(queries));
+
+  const entries = await runWithConcurrency(
+    queries,
+    BATCH_CONCURRENCY,
+    async (rawQuery, index): Promise<BatchEntry> => {
+      if (!rawQuery || typeof rawQuery !== "object" || Array.isArray(rawQuery)) {
+        return {
+          status: "error",
+          error: { code: 400, message: "Bad request", details: "Each query must be an object." },
+        };
+      }
+
+      try {
+        const query = toQueryRecord(rawQuery as Record<string, unknown>);
+        const { page, error: pageError } = parsePageRequest(query);
+        if (pageError) {
+          return {
+            status: "error",
+            error: { code: 400, message: "Invalid pagination", details: pageError },
+          };
+        }
+
+        const parsed = await parseSearchQuery(query, resolveImdbId);
+        if (parsed instanceof Response) {
+          return { status: "error", error: await toBatchError(parsed) };
+        }
+
+        if (page && isSeasonRequest(parsed.request)) {
+          return {
+            status: "error",
+            error: {
+              code: 400,
+              message: "Invalid pagination",
+              details: "Pagination is not supported for whole-season searches.",
+            },
+          };
+        }
+
+        const { results, report } = await runSearchQuery(parsed, host);
+        const diagnostics = {
+          ...(parsed.lookup ? { resolved: parsed.lookup } : {}),
+          ...(parsed.verbose ?
+            { sources: report.sources, resolvedImdbId: report.resolvedImdbId }
+          : {}),
+        };
+        if (isSeasonRequest(parsed.request)) {
+          return {
+            status: "ok",
+            ...groupResultsByEpisode(results, parsed.request.season),
+            ...diagnostics,
+          };
+        }
+        if (page) {
+          return { status: "ok", ...paginate(results, page), ...diagnostics };
+        }
+        return { status: "ok", results, ...diagnostics };
+      } catch (error) {
+        if (error instanceof StaleCursorError) {
+          return {
+            status: "error",
+            error: { code: 409, message: "Stale cursor", details: error.message },
+          };
+        }
+        console.error(`[Batch] Query ${index} failed:`, error);
+        return {
+          status: "error",
+          error: {
+            code: 500,
+            message: "Internal server error",
+            details: error instanceof Error ? error.message : String(error),
+          },
+        };
+      }
+    },
+  );
+
+  const results: Record<string, BatchEntry> = {};
+  entries.forEach((entry, index) => {
+    results[String(index)] = entry;
+  });
+
+  return new Response(JSON.stringify({ total: queries.length, results }), {
+    headers: {
+      "content-type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+});
@@ -1,6 +1,22 @@
 /** @format */
 
+import { getEnabledProviders } from "~/sources";
+
+function buildStatusSources() {
+  return getEnabledProviders().map((provider) => {
+    const toUrls = (samples?: string[]) =>
+      samples?.map((sample) => `/search?${sample}&source=${provider.name}`);
+    return {
+      name: provider.displayName,
+      movieUrls: toUrls(provider.statusSamples?.movie),
+      tvUrls: toUrls(provider.statusSamples?.tv),
+    };
+  });
+}
+
 export default eventHandler(() => {
+  // Escape "<" so the JSON cannot close the surrounding script tag
+  const statusSources = JSON.stringify(buildStatusSources()).replace(/</g, "\\u003c");
   const html = `
 <!DOCTYPE html>
 <html lang="en">
@@ -91,85 +107,8 @@ export default eventHandler(() => {
     </div>
 
     <script>
-      // Test URLs
-      const OpenSubsTestUrlsTv = [
-        "/search?id=tt2861424&season=1&episode=1&source=opensubtitles",
-        "/search?id=tt0306414&season=1&episode=1&source=opensubtitles",
-        "/search?id=tt14044212&season=1&episode=1&source=opensubtitles",
-        "/search?id=46511&season=1&episode=1&source=opensubtitles",
-      ];
-
-      const OpenSubsTestUrlsMovies = [
-        "/search?id=tt36856278&source=opensubtitles",
-        "/search?id=tt1490017&source=opensubtitles",
-        "/search?id=508943&source=opensubtitles",
-      ];
-
-      const SubDlTestUrlsTv = [
-        "/search?id=tt2861424&season=1&episode=1&source=subdl",
-        "/search?id=tt0306414&season=1&episode=1&source=subdl",
-        "/search?id=tt14044212&season=1&episode=1&source=subdl",
-        "/search?id=46511&season=1&episode=1&source=subdl",
-      ];
-
-      const SubDlTestUrlsMovies = [
-        "/search?id=tt1599348&source=subdl",
-        "/search?id=tt36856278&source=subdl",
-        "/search?id=tt1490017&source=subdl",
-        "/search?id=508943&source=subdl",
-      ];
-
-      const Subf2mTestUrlsTv = [
-        "/search?id=tt2861424&season=1&episode=1&source=subf2m",
-        "/search?id=tt0306414&season=1&episode=1&source=subf2m",
-        "/search?id=46511&season=1&episode=1&source=subf2m",
-      ];
-
-      const Subf2mTestUrlsMovies = [
-        "/search?id=tt36856278&source=subf2m",
-        "/search?id=tt1490017&source=subf2m",
-        "/search?id=508943&source=subf2m",
-      ];
-
-      const PodnapisiTestUrlsTv = [
-        "/search?id=tt2861424&season=1&episode=1&source=podnapisi",
-        "/search?id=tt0306414&season=1&episode=1&source=podnapisi",
-        "/search?id=tt14044212&season=1&episode=1&source=podnapisi",
-        "/search?id=46511&season=1&episode=1&source=podnapisi",
-      ];
-
-      const PodnapisiTestUrlsMovies = [
-        "/search?id=tt36856278&source=podnapisi",
-        "/search?id=tt1490017&source=podnapisi",
-        "/search?id=508943&source=podnapisi",
-      ];
-
-      const AnimetoshoTestUrlsTv = [
-        "/search?id=tt2560140&season=1&episode=1&source=animetosho",
-        "/search?id=tt2560140&season=1&episode=2&source=animetosho",
-        "/search?id=tt2560140&season=2&episode=1&source=animetosho",
-      ];
-
-      const AnimetoshoTestUrlsMovies = [
-        "/search?id=tt5311514&source=animetosho",
-        "/search?id=tt9426210&source=animetosho",
-        "/search?id=tt1951264&source=animetosho",
-      ];
-
-      const GestdownTestUrlsTv = [
-        "/search?id=tt2861424&season=1&episode=1&source=gestdown",
-        "/search?id=tt0306414&season=1&episode=1&source=gestdown",
-        "/search?id=tt0944947&season=1&episode=1&source=gestdown",
-      ];
-
-      const sourcesConfig = [
-        { name: "OpenSubtitles", movieUrls: OpenSubsTestUrlsMovies, tvUrls: OpenSubsTestUrlsTv },
-        { name: "SubDL", movieUrls: SubDlTestUrlsMovies, tvUrls: SubDlTestUrlsTv },
-        { name: "Subf2m", movieUrls: Subf2mTestUrlsMovies, tvUrls: Subf2mTestUrlsTv },
-        { name: "Podnapisi", movieUrls: PodnapisiTestUrlsMovies, tvUrls: PodnapisiTestUrlsTv },
-        { name: "Animetosho", movieUrls: AnimetoshoTestUrlsMovies, tvUrls: AnimetoshoTestUrlsTv },
-        { name: "Gestdown", tvUrls: GestdownTestUrlsTv },
-      ];
+      // Test URLs, one set per enabled source
+      const sourcesConfig = ${statusSources};
 
       function getRandomElement(array) {
         if (!Array.isArray(array) || array.length === 0) {
@@ -7,11 +7,19 @@ import { DOMParser } from "@xmldom/xmldom";
 import ISO6391 from "iso-639-1";
 import { iso6393 } from "iso-639-3";
 import { languageToCountryCode } from "~/utils/lookup";
+import { canonicalizeLanguageTag, matchesLanguageBase } from "~/utils/language";
 import { proxyFetch } from "~/utils/proxy";
-import { readPositiveIntEnv, extractOrigin } from "~/utils/utils";
+import {
+  detectMachineTranslation,
+  detectSubtitleType,
+  isHearingImpairedName,
+  pickTmdbApiKey,
+  readPositiveIntEnv,
+} from "~/utils/utils";
+import { getAniDbEpisodeMapping, getIdsForImdb, type AniDbEpisodeMapping } from "~/utils/idMapping";
+import { getReleaseOrigin, parseReleaseInfo } from "~/utils/release";
 import type { RequestType, ResponseType } from "~/utils/types";
-
-const TMDB_API_KEYS = ["xxx", "xxx"];
+import { registerProvider } from "~/utils/providers";
 
 const ANIMETOSHO_SEARCH_THRESHOLD = readPositiveIntEnv("ANIMETOSHO_SEARCH_THRESHOLD", 6);
 const ANIMETOSHO_FEED_URL = "https://feed.animetosho.org/json";
@@ -19,18 +27,6 @@ const ANIMETOSHO_STORAGE_URL = "https://animetosho.org/storage/attach";
 const ANIME_LIST_URL =
   "https://raw.githubusercontent.com/Anime-Lists/anime-lists/master/anime-list.xml";
 
-type ExternalIds = {
-  tvdbId: number | null;
-  tmdbId: number | null;
-  title?: string;
-};
-
-type AniDbMappingResult = {
-  seriesId: number;
-  episodeNumber: number;
-  offset: number;
-};
-
 type AnimetoshoFeedEntry = {
   id: number;
   status?: string;
@@ -131,7 +127,6 @@ function resolveLanguageInfo(raw: string | undefined | null): ResolvedLanguage {
   };
 }
 
-const externalIdsCache = new Map<string, ExternalIds | null>();
 let animeListDocumentPromise: Promise<Document> | null = null;
 const aniDbEpisodeCache = new Map<number, Map<string, number>>();
 let lastAniDbRequestTs = 0;
@@ -172,10 +167,6 @@ async function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-function pickTmdbApiKey(): string {
-  return TMDB_API_KEYS[Math.floor(Math.random() * TMDB_API_KEYS.length)];
-}
-
 function safeParseInt(value: string | null | undefined, defaultValue = 0): number {
   if (value === undefined || value === null || value.trim() === "") {
     return defaultValue;
@@ -207,74 +198,6 @@ function findChildElements(parent: Element, tagName: string): Element[] {
   return nodes;
 }
 
-async function resolveExternalIds(imdbId: string): Promise<ExternalIds | null> {
-  if (externalIdsCache.has(imdbId)) {
-    return externalIdsCache.get(imdbId) ?? null;
-  }
-
-  const apiKey = pickTmdbApiKey();
-  const findUrl = `https://api.themoviedb.org/3/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
-
-  try {
-    const findResponse = await fetch(findUrl);
-    if (!findResponse.ok) {
-      console.warn(
-        `[Animetosho] Failed to resolve TMDb data for ${imdbId}. Status: ${findResponse.status}`,
-      );
-      externalIdsCache.set(imdbId, null);
-      return null;
-    }
-
-    const findData = await findResponse.json();
-    const tvResult = Array.isArray(findData?.tv_results) ? findData.tv_results[0] : null;
-
-    if (!tvResult) {
-      console.warn(`[Animetosho] No TV results matched IMDB ID ${imdbId}.`);
-      externalIdsCache.set(imdbId, null);
-      return null;
-    }
-
-    const tmdbId = typeof tvResult.id === "number" ? tvResult.id : null;
-
-    if (!tmdbId) {
-      console.warn(`[Animetosho] TMDb result for ${imdbId} did not include a TMDb ID.`);
-      externalIdsCache.set(imdbId, null);
-      return null;
-    }
-
-    const externalIdsUrl = `https://api.themoviedb.org/3/tv/${tmdbId}/external_ids?api_key=${apiKey}`;
-    const externalIdsResponse = await fetch(externalIdsUrl);
-
-    if (!externalIdsResponse.ok) {
-      console.warn(
-        `[Animetosho] Failed to resolve external IDs for TMDb ${tmdbId}. Status: ${externalIdsResponse.status}`,
-      );
-      externalIdsCache.set(imdbId, null);
-      return null;
-    }
-
-    const externalIdsData = await externalIdsResponse.json();
-    const tvdbId = typeof externalIdsData?.tvdb_id === "number" ? externalIdsData.tvdb_id : null;
-
-    if (!tvdbId) {
-      console.warn(`[Animetosho] No TVDB ID found for TMDb ${tmdbId} (IMDB ${imdbId}).`);
-    }
-
-    const resolved: ExternalIds = {
-      tvdbId,
-      tmdbId,
-      title: typeof tvResult.name === "string" ? tvResult.name : undefined,
-    };
-
-    externalIdsCache.set(imdbId, resolved);
-    return resolved;
-  } catch (error) {
-    console.error(`[Animetosho] Error resolving external IDs for ${imdbId}:`, error);
-    externalIdsCache.set(imdbId, null);
-    return null;
-  }
-}
-
 async function resolveMovieMetadata(imdbId: string): Promise<MovieMetadata | null> {
   if (movieMetadataCache.has(imdbId)) {
     return movieMetadataCache.get(imdbId) ?? null;
@@ -283,27 +206,13 @@ async function resolveMovieMetadata(imdbId: string): Promise<MovieMetadata | nul
   const apiKey = pickTmdbApiKey();
 
   try {
-    const findUrl = `https://api.themoviedb.org/3/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
-    const findResponse = await fetch(findUrl);
+    const ids = await getIdsForImdb(imdbId);
 
-    if (!findResponse.ok) {
-      console.warn(
-        `[Animetosho] Failed to resolve movie metadata for ${imdbId}. Status: ${findResponse.status}`,
-      );
-      movieMetadataCache.set(imdbId, null);
-      return null;
-    }
-
-    const findData = await findResponse.json();
-    const movieResults = Array.isArray(findData?.movie_results) ? findData.movie_results : [];
-
-    if (movieResults.length === 0) {
+    if (ids?.mediaType !== "movie") {
       console.warn(`[Animetosho] No movie metadata matched IMDB ID ${imdbId}.`);
-      movieMetadataCache.set(imdbId, null);
       return null;
     }
 
-    const primary = movieResults[0];
     const titles = new Set<string>();
 
     const addTitle = (value: unknown) => {
@@ -317,52 +226,46 @@ async function resolveMovieMetadata(imdbId: string): Promise<MovieMetadata | nul
       }
     };
 
-    addTitle(primary?.title);
-    addTitle(primary?.original_title);
+    addTitle(ids.title);
 
     let year: number | undefined;
-    if (typeof primary?.release_date === "string" && primary.release_date.trim().length >= 4) {
-      const parsedYear = Number.parseInt(primary.release_date.slice(0, 4), 10);
+    if (ids.releaseDate && ids.releaseDate.length >= 4) {
+      const parsedYear = Number.parseInt(ids.releaseDate.slice(0, 4), 10);
       if (Number.isFinite(parsedYear)) {
         year = parsedYear;
       }
     }
 
-    const tmdbId = typeof primary?.id === "number" ? primary.id : null;
+    const tmdbId = ids.tmdbId;
 
-    if (tmdbId !== null) {
-      try {
-        const detailsUrl = `https://api.themoviedb.org/3/movie/${tmdbId}?api_key=${apiKey}&append_to_response=alternative_titles`;
-        const detailsResponse = await fetch(detailsUrl);
+    try {
+      const detailsUrl = `https://api.themoviedb.org/3/movie/${tmdbId}?api_key=${apiKey}&append_to_response=alternative_titles`;
+      const detailsResponse = await fetch(detailsUrl);
 
-        if (detailsResponse.ok) {
-          const detailsData = await detailsResponse.json();
-          addTitle(detailsData?.title);
-          addTitle(detailsData?.original_title);
+      if (detailsResponse.ok) {
+        const detailsData = await detailsResponse.json();
+        addTitle(detailsData?.title);
+        addTitle(detailsData?.original_title);
 
-          if (Array.isArray(detailsData?.alternative_titles?.titles)) {
-            for (const alternative of detailsData.alternative_titles.titles) {
-              addTitle(alternative?.title);
-            }
+        if (Array.isArray(detailsData?.alternative_titles?.titles)) {
+          for (const alternative of detailsData.alternative_titles.titles) {
+            addTitle(alternative?.title);
           }
+        }
 
-          if (!year && typeof detailsData?.release_date === "string") {
-            const parsedYear = Number.parseInt(detailsData.release_date.slice(0, 4), 10);
-            if (Number.isFinite(parsedYear)) {
-              year = parsedYear;
-            }
+        if (!year && typeof detailsData?.release_date === "string") {
+          const parsedYear = Number.parseInt(detailsData.release_date.slice(0, 4), 10);
+          if (Number.isFinite(parsedYear)) {
+            year = parsedYear;
           }
-        } else {
-          console.warn(
-            `[Animetosho] Failed to fetch TMDb movie details for ${tmdbId}. Status: ${detailsResponse.status}`,
-          );
         }
-      } catch (detailsError) {
-        console.error(
-          `[Animetosho] Error fetching TMDb details for movie ${tmdbId}:`,
-          detailsError,
+      } else {
+        console.warn(
+          `[Animetosho] Failed to fetch TMDb movie details for ${tmdbId}. Status: ${detailsResponse.status}`,
         );
       }
+    } catch (detailsError) {
+      console.error(`[Animetosho] Error fetching TMDb details for movie ${tmdbId}:`, detailsError);
     }
 
     const cleanedTitles = Array.from(titles);
@@ -618,7 +521,7 @@ function convertSpecialMapping(
   nodes: Element[],
   targetSeason: string,
   episode: number,
-): AniDbMappingResult | null {
+): AniDbEpisodeMapping | null {
   for (const node of nodes) {
     const mappingLists = findChildElements(node, "mapping-list");
     for (const mappingList of mappingLists) {
@@ -666,7 +569,7 @@ function resolveAniDbEpisode(
   tvdbId: number,
   season: number,
   episode: number,
-): AniDbMappingResult | null {
+): AniDbEpisodeMapping | null {
   const seasonString = String(season);
   const candidates = findAnimeNodesBySeason(doc, tvdbId, seasonString);
 
@@ -829,10 +732,6 @@ async function resolveAniDbEpisodeId(
   return null;
 }
 
-function detectHearingImpaired(candidate: string): boolean {
-  return /\b(hi|sdh|hearing impaired|hearing-impaired)\b/i.test(candidate);
-}
-
 function formatFromAttachment(attachment: AnimetoshoAttachment, parent: AnimetoshoFile): string {
   const codec = attachment.info?.codec;
   if (codec && typeof codec === "string" && codec.trim().length > 0) {
@@ -884,7 +783,6 @@ function toResponse(
   entry: AnimetoshoFeedEntry,
   request: RequestType,
 ): ResponseType | null {
-  const languageFilters = normalizeFilter(request.languages);
   const formatFilters = normalizeFilter(request.formats);
   const encodingFilters = normalizeFilter(request.encodings);
 
@@ -897,7 +795,7 @@ function toResponse(
   const resolvedLanguage = resolveLanguageInfo(rawLang);
   const normalizedLanguage = resolvedLanguage.normalized;
 
-  if (languageFilters.length > 0) {
+  if (request.languages && request.languages.length > 0) {
     const candidateCodes = [
       resolvedLanguage.normalized,
       resolvedLanguage.iso2,
@@ -906,7 +804,7 @@ function toResponse(
       rawLang?.toLowerCase(),
     ].filter((code): code is string => Boolean(code && code.length > 0));
 
-    const matches = candidateCodes.some((code) => languageFilters.includes(code.toLowerCase()));
+    const matches = candidateCodes.some((code) => matchesLanguageBase(code, request.languages));
     if (!matches) {
       return null;
     }
@@ -918,10 +816,7 @@ function toResponse(
   }
 
   const descriptor = `${attachment.info?.name ?? ""} ${attachment.filename ?? ""}`;
-  const isHearingImpaired = detectHearingImpaired(descriptor);
-  if (request.hearingImpaired && !isHearingImpaired) {
-    return null;
-  }
+  const isHearingImpaired = isHearingImpairedName(descriptor);
 
   const encoding = detectEncoding(descriptor, format);
   if (encodingFilters.length > 0 && !encodingFilters.includes(encoding)) {
@@ -948,6 +843,13 @@ function toResponse(
     }
     return "US";
   })();
+  const languageTag =
+    isBrazilian ? "pt-BR" : (
+      (canonicalizeLanguageTag(
+        [normalizedLanguage, resolvedLanguage.region].filter(Boolean).join("-"),
+      ) ?? normalizedLanguage)
+    );
+  const releaseInfo = parseReleaseInfo([entry.title, attachment.filename]);
 
   return {
     id: `${attachmentId}`,
@@ -956,7 +858,7 @@ function toResponse(
     format,
     encoding,
     display: displayName,
-    language: normalizedLanguage,
+    language: languageTag,
     media: entry.title ?? parent.filename ?? "Unknown",
     isHearingImpaired,
     source: "animetosho",
@@ -968,7 +870,15 @@ function toResponse(
     releases: [entry.title, attachment.filename]
       .map((value) => (typeof value === "string" ? value.trim() : ""))
       .filter((value) => value.length > 0),
-    origin: extractOrigin(entry.title) ?? extractOrigin(attachment.filename) ?? null,
+    origin: getReleaseOrigin(releaseInfo),
+    releaseInfo,
+    // Attachment names tell tracks apart, e.g. "Signs & Songs" next to "Full Subtitles"
+    type: detectSubtitleType([attachment.info?.name, attachment.filename], {
+      hearingImpaired: isHearingImpaired,
+    }),
+    machineTranslated: detectMachineTranslation({
+      releases: [entry.title, attachment.info?.name, attachment.filename],
+    }),
     fileName: attachment.filename ?? null,
   };
 }
@@ -1013,29 +923,22 @@ function extractSubtitles(
   return results;
 }
 
+// Throws when the feed cannot be reached
 async function fetchEpisodeEntries(episodeId: number): Promise<AnimetoshoFeedEntry[]> {
   const url = `${ANIMETOSHO_FEED_URL}?eid=${episodeId}`;
-  try {
-    const response = await fetchWithProxyFallback(url);
-    if (!response.ok) {
-      console.warn(
-        `[Animetosho] Episode feed request for ${episodeId} failed with status ${response.status}.`,
-      );
-      return [];
-    }
-
-    const data = await response.json();
-    if (!Array.isArray(data)) {
-      return [];
-    }
+  const response = await fetchWithProxyFallback(url);
+  if (!response.ok) {
+    throw new Error(`Episode feed request for ${episodeId} failed with status ${response.status}.`);
+  }
 
-    return data
-      .filter((entry) => entry && entry.status === "complete")
-      .sort((a, b) => (Number(b.timestamp) || 0) - (Number(a.timestamp) || 0));
-  } catch (error) {
-    console.error(`[Animetosho] Unable to fetch episode entries for ${episodeId}:`, error);
+  const data = await response.json();
+  if (!Array.isArray(data)) {
     return [];
   }
+
+  return data
+    .filter((entry) => entry && entry.status === "complete")
+    .sort((a, b) => (Number(b.timestamp) || 0) - (Number(a.timestamp) || 0));
 }
 
 async function fetchTorrentDetails(torrentId: number): Promise<AnimetoshoTorrentDetails | null> {
@@ -1085,8 +988,9 @@ async function searchAnimetoshoEpisode(request: RequestType): Promise<ResponseTy
   const season = request.season as number;
   const episode = request.episode as number;
 
-  const externalIds = await resolveExternalIds(imdbId);
-  const fallbackTitle = externalIds?.title;
+  const ids = await getIdsForImdb(imdbId);
+  const showIds = ids?.mediaType === "tv" ? ids : null;
+  const fallbackTitle = showIds?.title;
   let fallbackCache: ResponseType[] | null = null;
 
   const ensureFallback = async (): Promise<ResponseType[]> => {
@@ -1103,23 +1007,26 @@ async function searchAnimetoshoEpisode(request: RequestType): Promise<ResponseTy
     return fallbackCache;
   };
 
-  if (!externalIds?.tvdbId) {
+  if (!showIds?.tvdbId) {
     console.warn(
       `[Animetosho] Unable to resolve TVDB identifier for IMDB ${imdbId}. Falling back to keyword search.`,
     );
     return ensureFallback();
   }
 
-  const animeDoc = await loadAnimeListDocument();
-  if (!animeDoc) {
-    return ensureFallback();
-  }
-
-  const mapping = resolveAniDbEpisode(animeDoc, externalIds.tvdbId, season, episode);
+  const tvdbId = showIds.tvdbId;
+  const mapping = await getAniDbEpisodeMapping(tvdbId, season, episode, async () => {
+    const animeDoc = await loadAnimeListDocument();
+    if (!animeDoc) {
+      // Thrown rather than returned, so a failed download is not remembered as "no mapping"
+      throw new Error("anime-list.xml is unavailable");
+    }
+    return resolveAniDbEpisode(animeDoc, tvdbId, season, episode);
+  });
 
   if (!mapping) {
     console.warn(
-      `[Animetosho] Unable to map TVDB ${externalIds.tvdbId} S${season}E${episode} to AniDB identifiers. Attempting keyword search.`,
+      `[Animetosho] Unable to map TVDB ${tvdbId} S${season}E${episode} to AniDB identifiers. Attempting keyword search.`,
     );
     return ensureFallback();
   }
@@ -1132,7 +1039,18 @@ async function searchAnimetoshoEpisode(request: RequestType): Promise<ResponseTy
     return ensureFallback();
   }
 
-  const entries = await fetchEpisodeEntries(episodeId);
+  let entries: AnimetoshoFeedEntry[];
+  try {
+    entries = await fetchEpisodeEntries(episodeId);
+  } catch (error) {
+    if (!fallbackTitle) throw error;
+    // The keyword search reports the feed as down if it fails too
+    console.warn(
+      `[Animetosho] Episode feed failed for ${episodeId}. Attempting keyword search.`,
+      error,
+    );
+    return ensureFallback();
+  }
   if (entries.length === 0) {
     return ensureFallback();
   }
@@ -1186,9 +1104,19 @@ async function searchAnimetoshoMovie(request: RequestType): Promise<ResponseType
 
   const limit = Math.max(1, ANIMETOSHO_SEARCH_THRESHOLD);
   const entriesById = new Map<number, AnimetoshoFeedEntry>();
+  let lastError: unknown = null;
+  let failedQueries = 0;
 
   for (const query of queries) {
-    const entries = await fetchKeywordEntries(query);
+    let entries: AnimetoshoFeedEntry[];
+    try {
+      entries = await fetchKeywordEntries(query);
+    } catch (error) {
+      console.warn(`[Animetosho] Keyword query "${query}" failed:`, error);
+      lastError = error;
+      failedQueries += 1;
+      continue;
+    }
 
     for (const entry of entries) {
       if (isLikelyEpisodeTitle(entry.title)) {
@@ -1216,6 +1144,11 @@ async function searchAnimetoshoMovie(request: RequestType): Promise<ResponseType
     }
   }
 
+  // Some queries may fail; all of them failing means the feed is down
+  if (failedQueries === queries.length && lastError) {
+    throw lastError;
+  }
+
   if (entriesById.size === 0) {
     console.warn(`[Animetosho] No movie matches found for IMDB ${imdbId}.`);
     return [];
@@ -1325,29 +1258,22 @@ function matchesEpisodeTitle(title: string | undefined, season: number, episode:
   return false;
 }
 
+// Throws when the feed cannot be reached, like `fetchEpisodeEntries`
 async function fetchKeywordEntries(query: string): Promise<AnimetoshoFeedEntry[]> {
   const url = `${ANIMETOSHO_FEED_URL}?q=${encodeURIComponent(query)}`;
-  try {
-    const response = await fetchWithProxyFallback(url);
-    if (!response.ok) {
-      console.warn(
-        `[Animetosho] Keyword feed request for "${query}" failed with status ${response.status}.`,
-      );
-      return [];
-    }
-
-    const data = await response.json();
-    if (!Array.isArray(data)) {
-      return [];
-    }
+  const response = await fetchWithProxyFallback(url);
+  if (!response.ok) {
+    throw new Error(`Keyword feed request for "${query}" failed with status ${response.status}.`);
+  }
 
-    return data
-      .filter((entry) => entry && entry.status === "complete")
-      .sort((a, b) => (Number(b.timestamp) || 0) - (Number(a.timestamp) || 0));
-  } catch (error) {
-    console.error(`[Animetosho] Unable to fetch keyword entries for "${query}":`, error);
+  const data = await response.json();
+  if (!Array.isArray(data)) {
     return [];
   }
+
+  return data
+    .filter((entry) => entry && entry.status === "complete")
+    .sort((a, b) => (Number(b.timestamp) || 0) - (Number(a.timestamp) || 0));
 }
 
 function countMatchingTokens(candidates: string[], tokens: string[]): number {
@@ -1419,9 +1345,19 @@ async function searchAnimetoshoByKeyword(
   const titleTokens = tokenizeTitle(title);
   const limit = Math.max(1, ANIMETOSHO_SEARCH_THRESHOLD);
   const entriesById = new Map<number, AnimetoshoFeedEntry>();
+  let lastError: unknown = null;
+  let failedQueries = 0;
 
   for (const query of queries) {
-    const entries = await fetchKeywordEntries(query);
+    let entries: AnimetoshoFeedEntry[];
+    try {
+      entries = await fetchKeywordEntries(query);
+    } catch (error) {
+      console.warn(`[Animetosho] Keyword query "${query}" failed:`, error);
+      lastError = error;
+      failedQueries += 1;
+      continue;
+    }
     for (const entry of entries) {
       if (!matchesEpisodeTitle(entry.title, request.season, request.episode)) {
         continue;
@@ -1441,6 +1377,11 @@ async function searchAnimetoshoByKeyword(
     }
   }
 
+  // Some queries may fail; all of them failing means the feed is down
+  if (failedQueries === queries.length && lastError) {
+    throw lastError;
+  }
+
   if (entriesById.size === 0) {
     return [];
   }
@@ -1467,3 +1408,42 @@ async function searchAnimetoshoByKeyword(
 
   return results;
 }
+
+registerProvider({
+  name: "animetosho",
+  displayName: "Animetosho",
+  capabilities: { movie: true, tv: true, hash: false, season: false },
+  enabled: true,
+  defaultFor: { movie: false, tv: true },
+  reliability: 0.7,
+  cacheTtlSeconds: 86_400, // fansub releases appear within days of airing
+  downloadSuffix: ".animetosho",
+  statusSamples: {
+    movie: ["id=tt5311514", "id=tt9426210", "id=tt1951264"],
+    tv: [
+      "id=tt2560140&season=1&episode=1",
+      "id=tt2560140&season=1&episode=2",
+      "id=tt2560140&season=2&episode=1",
+    ],
+  },
+  search: searchAnimetosho,
+  buildDownloadLocator(item) {
+    if (!item.id || !/^[0-9]+$/.test(item.id)) {
+      return null;
+    }
+    return { vrf: "animetosho", fileId: item.id };
+  },
+  resolveDownload({ fileId, format }) {
+    if (!/^\d+$/.test(fileId)) {
+      return null;
+    }
+    // Attachments are stored as single-file XZ archives
+    return {
+      url: buildDownloadUrl(Number.parseInt(fileId, 10)),
+      headers: {},
+      fetchMode: "proxy",
+      container: "xz",
+      format,
+    };
+  },
+});
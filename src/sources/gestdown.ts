@@ -4,9 +4,19 @@ import ISO6391 from "iso-639-1";
 import { iso6393, iso6393To1 } from "iso-639-3";
 import type { Language as Iso6393Language } from "iso-639-3";
 import type { RequestType, ResponseType } from "~/utils/types";
-import { languageToCountryCode, getLanguageMetadata } from "~/utils/lookup";
-import { getTvIdentifiersFromImdb, extractOrigin } from "~/utils/utils";
+import { registerProvider } from "~/utils/providers";
+import { getLanguageMetadata } from "~/utils/lookup";
+import { getLanguageFlagCode } from "~/utils/language";
+import {
+  detectMachineTranslation,
+  detectSubtitleType,
+  isHearingImpairedName,
+  normalizeDownloadCount,
+  normalizeUploadDate,
+} from "~/utils/utils";
+import { getIdsForImdb } from "~/utils/idMapping";
 import { proxyFetch } from "~/utils/proxy";
+import { getReleaseOrigin, parseReleaseInfo } from "~/utils/release";
 import { getCountryNames, getAlpha2Code } from "~/utils/countries";
 
 const BASE_URL = "https://api.gestdown.info";
@@ -1063,6 +1073,11 @@ const GESTDOWN_HEADERS = {
   "User-Agent": "WyzieAPI/1.0 (+https://github.com/itzCozi/wyzie-api)",
 };
 
+const GESTDOWN_DOWNLOAD_HEADERS = {
+  Accept: "text/srt, text/plain;q=0.9, */*;q=0.8",
+  "User-Agent": GESTDOWN_HEADERS["User-Agent"],
+};
+
 type GestdownShow = {
   id: string;
   name?: string;
@@ -1076,12 +1091,25 @@ type GestdownSubtitleItem = {
   hearingImpaired: boolean;
   downloadUri: string;
   language: string;
+  downloadCount?: number;
+  discovered?: string;
 };
 
 type GestdownSubtitleResponse = {
   matchingSubtitles?: GestdownSubtitleItem[];
 };
 
+type GestdownSeasonResponse = {
+  episodes?: {
+    season: number;
+    number: number;
+    subtitles?: GestdownSubtitleItem[];
+  }[];
+};
+
+// A subtitle tagged with the episode it was listed under
+type GestdownEpisodeSubtitle = GestdownSubtitleItem & { episode: number };
+
 type LanguagePlan = {
   apiName: string;
   apiCode: string;
@@ -1195,25 +1223,19 @@ function delay(ms: number): Promise<void> {
   });
 }
 
-async function fetchSubtitlesForPlan(
-  show: GestdownShow,
-  plan: LanguagePlan,
-  season: number,
-  episode: number,
-): Promise<GestdownSubtitleItem[]> {
-  const searchUrl = `${BASE_URL}/subtitles/get/${show.id}/${season}/${episode}/${encodeURIComponent(plan.apiName)}`;
-
+// Gestdown answers 423 while it refreshes a show; wait and retry a few times
+async function fetchGestdownJson<T>(url: string, label: string): Promise<T | null> {
   for (let attempt = 0; attempt < MAX_RETRIES; attempt += 1) {
-    const response = await proxyFetch(searchUrl, { headers: GESTDOWN_HEADERS });
+    const response = await proxyFetch(url, { headers: GESTDOWN_HEADERS });
 
     if (response.status === 404) {
-      return [];
+      return null;
     }
 
     if (response.status === 423) {
       if (attempt === MAX_RETRIES - 1) {
-        console.warn(`[Gestdown] 423 response persisted for ${searchUrl}; skipping.`);
-        return [];
+        console.warn(`[Gestdown] 423 response persisted for ${url}; skipping.`);
+        return null;
       }
 
       await delay(RETRY_DELAY_MS);
@@ -1222,21 +1244,56 @@ async function fetchSubtitlesForPlan(
 
     if (!response.ok) {
       console.warn(
-        `[Gestdown] Failed to fetch subtitles for ${show.id} (${plan.apiName}): ${response.status} ${response.statusText}`,
+        `[Gestdown] Failed to fetch ${label}: ${response.status} ${response.statusText}`,
       );
-      return [];
+      return null;
     }
 
     try {
-      const payload = (await response.json()) as GestdownSubtitleResponse;
-      return Array.isArray(payload.matchingSubtitles) ? payload.matchingSubtitles : [];
+      return (await response.json()) as T;
     } catch (parseError) {
-      console.error(`[Gestdown] Unable to parse subtitle response for ${show.id}:`, parseError);
-      return [];
+      console.error(`[Gestdown] Unable to parse ${label}:`, parseError);
+      return null;
     }
   }
 
-  return [];
+  return null;
+}
+
+async function fetchSubtitlesForPlan(
+  show: GestdownShow,
+  plan: LanguagePlan,
+  season: number,
+  episode: number,
+): Promise<GestdownEpisodeSubtitle[]> {
+  const searchUrl = `${BASE_URL}/subtitles/get/${show.id}/${season}/${episode}/${encodeURIComponent(plan.apiName)}`;
+  const payload = await fetchGestdownJson<GestdownSubtitleResponse>(
+    searchUrl,
+    `subtitles for ${show.id} (${plan.apiName})`,
+  );
+  const subtitles = Array.isArray(payload?.matchingSubtitles) ? payload.matchingSubtitles : [];
+  return subtitles.map((subtitle) => ({ ...subtitle, episode }));
+}
+
+/**
+ * List every episode of a season in one call, for whole-season searches.
+ */
+async function fetchSeasonSubtitlesForPlan(
+  show: GestdownShow,
+  plan: LanguagePlan,
+  season: number,
+): Promise<GestdownEpisodeSubtitle[]> {
+  const seasonUrl = `${BASE_URL}/shows/${show.id}/${season}/${encodeURIComponent(plan.apiName)}`;
+  const payload = await fetchGestdownJson<GestdownSeasonResponse>(
+    seasonUrl,
+    `season ${season} of ${show.id} (${plan.apiName})`,
+  );
+  const episodes = Array.isArray(payload?.episodes) ? payload.episodes : [];
+  return episodes.flatMap((entry) =>
+    Array.isArray(entry.subtitles) ?
+      entry.subtitles.map((subtitle) => ({ ...subtitle, episode: entry.number }))
+    : [],
+  );
 }
 
 function buildMediaLabel(showName: string | undefined, _season: number, _episode: number): string {
@@ -1245,14 +1302,14 @@ function buildMediaLabel(showName: string | undefined, _season: number, _episode
 }
 
 export async function searchGestdown(request: RequestType): Promise<ResponseType[]> {
-  if (!request.imdbId || request.season === undefined || request.episode === undefined) {
+  if (!request.imdbId || request.season == null) {
     return [];
   }
 
   try {
-    const identifiers = await getTvIdentifiersFromImdb(request.imdbId);
+    const identifiers = await getIdsForImdb(request.imdbId);
 
-    if (!identifiers.tvdbId) {
+    if (!identifiers?.tvdbId) {
       console.warn(`[Gestdown] No TVDB identifier resolved for IMDb ID ${request.imdbId}.`);
       return [];
     }
@@ -1267,10 +1324,9 @@ export async function searchGestdown(request: RequestType): Promise<ResponseType
     }
 
     if (!showResponse.ok) {
-      console.warn(
-        `[Gestdown] Failed to retrieve show metadata for TVDB ID ${identifiers.tvdbId}: ${showResponse.status} ${showResponse.statusText}`,
+      throw new Error(
+        `Failed to retrieve show metadata for TVDB ID ${identifiers.tvdbId}: ${showResponse.status} ${showResponse.statusText}`,
       );
-      return [];
     }
 
     const showPayload = (await showResponse.json()) as { shows?: GestdownShow[] };
@@ -1295,25 +1351,23 @@ export async function searchGestdown(request: RequestType): Promise<ResponseType
     );
     const formatFiltering = requestedFormats.length > 0;
     const encodingFiltering = requestedEncodings.length > 0;
-    const hearingOnly = request.hearingImpaired === true;
 
     const collected = new Map<string, ResponseType>();
 
     for (const show of shows) {
-      const showName = show.name ?? identifiers.name ?? "Unknown Show";
+      const showName = show.name ?? identifiers.title ?? "Unknown Show";
 
       for (const plan of languagePlans) {
-        const subtitles = await fetchSubtitlesForPlan(show, plan, request.season, request.episode);
+        const subtitles =
+          request.episode == null ?
+            await fetchSeasonSubtitlesForPlan(show, plan, request.season)
+          : await fetchSubtitlesForPlan(show, plan, request.season, request.episode);
 
         for (const subtitle of subtitles) {
           if (!subtitle.completed) {
             continue;
           }
 
-          if (hearingOnly && !subtitle.hearingImpaired) {
-            continue;
-          }
-
           const normalizedLanguageName = normalizeLanguageName(subtitle.language ?? "");
           const subtitleMapping =
             subtitle.language ? resolveLanguageMapping(subtitle.language) : null;
@@ -1341,10 +1395,12 @@ export async function searchGestdown(request: RequestType): Promise<ResponseType
             continue;
           }
 
-          const languageCode = plan.baseCode;
-          const countryCode = languageToCountryCode[languageCode] ?? languageCode.toUpperCase();
+          // Keep the region or script the subtitle's own language names, e.g. pt-BR
+          const languageCode =
+            subtitleMapping?.baseCode === plan.baseCode ? subtitleMapping.apiCode : plan.apiCode;
+          const countryCode = getLanguageFlagCode(languageCode);
 
-          const mediaTitle = buildMediaLabel(showName, request.season, request.episode);
+          const mediaTitle = buildMediaLabel(showName, request.season, subtitle.episode);
 
           const subtitleId = subtitle.subtitleId;
 
@@ -1373,6 +1429,12 @@ export async function searchGestdown(request: RequestType): Promise<ResponseType
             }
           }
 
+          const releaseInfo = parseReleaseInfo([normalizedRelease, fileName]);
+          const isHearingImpaired =
+            Boolean(subtitle.hearingImpaired) ||
+            isHearingImpairedName(normalizedRelease) ||
+            isHearingImpairedName(fileName);
+
           const entry: ResponseType = {
             id: subtitleId,
             url: `gestdown/${subtitleId}`,
@@ -1383,12 +1445,23 @@ export async function searchGestdown(request: RequestType): Promise<ResponseType
               plan.apiName ?? getLanguageMetadata(languageCode)?.name ?? languageCode.toUpperCase(),
             language: languageCode,
             media: mediaTitle,
-            isHearingImpaired: Boolean(subtitle.hearingImpaired),
+            isHearingImpaired,
             source: "gestdown",
             release: normalizedRelease,
             releases: normalizedRelease ? [normalizedRelease] : [],
-            origin: extractOrigin(normalizedRelease) ?? extractOrigin(fileName) ?? null,
+            origin: getReleaseOrigin(releaseInfo),
+            releaseInfo,
+            type: detectSubtitleType([normalizedRelease, fileName], {
+              hearingImpaired: isHearingImpaired,
+            }),
+            machineTranslated: detectMachineTranslation({
+              releases: [normalizedRelease, fileName],
+            }),
             fileName,
+            downloads: normalizeDownloadCount(subtitle.downloadCount),
+            uploadedAt: normalizeUploadDate(subtitle.discovered),
+            season: request.season,
+            episode: subtitle.episode,
           };
 
           collected.set(subtitleId, entry);
@@ -1399,6 +1472,45 @@ export async function searchGestdown(request: RequestType): Promise<ResponseType
     return Array.from(collected.values());
   } catch (error) {
     console.error("[Gestdown] Unexpected error while searching:", error);
-    return [];
+    throw error;
   }
 }
+
+registerProvider({
+  name: "gestdown",
+  displayName: "Gestdown",
+  capabilities: { movie: false, tv: true, hash: false, season: true },
+  enabled: true,
+  defaultFor: { movie: false, tv: true },
+  // Leaves room for one 423 retry; later retries are cut off by the deadline
+  timeoutMs: 9_000,
+  reliability: 0.75,
+  cacheTtlSeconds: 86_400, // fresh episodes gain fixes and new uploads for days
+  downloadSuffix: ".gestdown",
+  statusSamples: {
+    tv: [
+      "id=tt2861424&season=1&episode=1",
+      "id=tt0306414&season=1&episode=1",
+      "id=tt0944947&season=1&episode=1",
+    ],
+  },
+  search: searchGestdown,
+  buildDownloadLocator(item) {
+    const subtitleId = item.id ?? item.url.split("/").pop();
+    if (!subtitleId) {
+      return null;
+    }
+    return { vrf: "gestdown", fileId: subtitleId };
+  },
+  resolveDownload({ fileId }) {
+    if (!fileId) {
+      return null;
+    }
+    return {
+      url: `${BASE_URL}/subtitles/download/${fileId}`,
+      headers: GESTDOWN_DOWNLOAD_HEADERS,
+      fetchMode: "proxy",
+      format: "srt",
+    };
+  },
+});
@@ -0,0 +1,19 @@
+/** @format */
+
+// Importing a source module registers its provider. The import order below is the order
+// in which sources are queried and listed.
+import "~/sources/subdl";
+import "~/sources/subf2m";
+import "~/sources/podnapisi";
+import "~/sources/animetosho";
+import "~/sources/gestdown";
+import "~/sources/opensubs";
+
+export {
+  getProvider,
+  getProviders,
+  getEnabledProviders,
+  isProviderEnabled,
+  supportsMedia,
+  findProviderForFileId,
+} from "~/utils/providers";
@@ -1,24 +1,67 @@
-import { extractOrigin } from "~/utils/utils";
-import type { RequestType, ResponseType } from "~/utils/types";
-import { languageToCountryCode } from "~/utils/lookup";
+import { detectMachineTranslation, detectSubtitleType, normalizeDownloadCount, normalizeUploadDate } from "~/utils/utils";
+import { getReleaseOrigin, parseReleaseInfo } from "~/utils/release";
+import type { RequestType, ResponseType, Subtitle } from "~/utils/types";
+import {
+  canonicalizeLanguageTag,
+  getLanguageFlagCode,
+  matchesLanguageBase,
+} from "~/utils/language";
 import { parseSubtitles } from "~/utils/json";
 import { proxyFetch } from "~/utils/proxy";
+import { registerProvider } from "~/utils/providers";
 
-export const searchOpensubtitles = async (request: RequestType) => {
-  const { imdbId, season, episode } = request;
-  const url = `https://rest.opensubtitles.org/search/${
-    season && episode ? `episode-${episode}/` : ""
-  }imdbid-${imdbId.slice(2)}${season && episode ? `/season-${season}` : ""}`;
+const OPENSUBTITLES_SEARCH_URL = "https://rest.opensubtitles.org/search";
+
+async function fetchOpensubtitles(path: string): Promise<Subtitle[]> {
   const headers = {
     "Content-Type": "application/json",
     "X-User-Agent": "VLSub 0.10.3",
   };
-  const res = await proxyFetch(url, { headers });
+  const res = await proxyFetch(`${OPENSUBTITLES_SEARCH_URL}/${path}`, { headers });
+  if (!res.ok) {
+    throw new Error(`OpenSubtitles search failed with status ${res.status}`);
+  }
   const text = await res.text();
 
   return parseSubtitles(text);
+}
+
+export const searchOpensubtitles = async (request: RequestType) => {
+  const { imdbId, season, episode, movieHash } = request;
+  const searches: Promise<Subtitle[]>[] = [];
+
+  if (movieHash) {
+    // The REST API expects its path criteria in alphabetical order
+    searches.push(
+      fetchOpensubtitles(`moviebytesize-${movieHash.byteSize}/moviehash-${movieHash.hash}`),
+    );
+  }
+  if (imdbId) {
+    // Leaving out the episode segment lists every episode of the season
+    searches.push(
+      fetchOpensubtitles(
+        `${season && episode ? `episode-${episode}/` : ""}imdbid-${imdbId.slice(2)}${
+          season ? `/season-${season}` : ""
+        }`,
+      ),
+    );
+  }
+
+  // Hash matches come first, so they win when the same file turns up in both lookups
+  const seen = new Set<string>();
+  return (await Promise.all(searches)).flat().filter((sub) => {
+    if (seen.has(sub.IDSubtitleFile)) return false;
+    seen.add(sub.IDSubtitleFile);
+    return true;
+  });
 };
 
+// SeriesSeason/SeriesEpisode come back as strings, with "0" for non-episode entries
+function parseEpisodeField(value: string | undefined): number | null {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
 export async function processOpenSubtitlesResults(
   data: any[],
   request: RequestType,
@@ -33,11 +76,9 @@ export async function processOpenSubtitlesResults(
       ) {
         sub.ISO639 = "fa";
       }
-      const hearingImpairedMatch = !request.hearingImpaired || sub.SubHearingImpaired === "1";
-      const languageMatch =
-        !request.languages ||
-        request.languages.length === 0 ||
-        request.languages.includes(sub.ISO639);
+      // ISO639 holds a few regional variants as two-letter codes, e.g. "pb" for pt-BR
+      const languageTag = canonicalizeLanguageTag(sub.ISO639) ?? sub.ISO639;
+      const languageMatch = matchesLanguageBase(languageTag, request.languages);
       const formatMatch =
         !request.formats ||
         request.formats.length === 0 ||
@@ -47,7 +88,7 @@ export async function processOpenSubtitlesResults(
         request.encodings.length === 0 ||
         request.encodings.includes(sub.SubEncoding.toLowerCase());
 
-      if (languageMatch && formatMatch && hearingImpairedMatch && encodingMatch) {
+      if (languageMatch && formatMatch && encodingMatch) {
         const releaseCandidates = new Set<string>();
         const addRelease = (value: unknown) => {
           if (typeof value !== "string") return;
@@ -65,12 +106,10 @@ export async function processOpenSubtitlesResults(
         const releases = Array.from(releaseCandidates);
         const primaryRelease = releases[0] ?? null;
 
-        // Calculate origin from all available release info
-        const origin = releases
-          .map((r) => extractOrigin(r))
-          .find((o) => o !== null) ?? null;
+        // Parse release details from all available release info
+        const releaseInfo = parseReleaseInfo(releases);
 
-        const countryCode = languageToCountryCode[sub.ISO639] || sub.ISO639.toUpperCase();
+        const countryCode = getLanguageFlagCode(languageTag);
         return {
           id: sub.IDSubtitleFile,
           url: sub.SubDownloadLink.replace(".gz", "").replace(
@@ -81,14 +120,29 @@ export async function processOpenSubtitlesResults(
           format: sub.SubFormat,
           encoding: sub.SubEncoding,
           display: sub.LanguageName,
-          language: sub.ISO639,
+          language: languageTag,
           media: sub.MovieName,
           isHearingImpaired: sub.SubHearingImpaired === "1",
           source: "opensubtitles",
           release: primaryRelease,
           releases,
-          origin,
+          origin: getReleaseOrigin(releaseInfo),
+          releaseInfo,
+          type: detectSubtitleType(releases, {
+            forced: sub.SubForeignPartsOnly === "1",
+            hearingImpaired: sub.SubHearingImpaired === "1",
+          }),
+          machineTranslated: detectMachineTranslation({
+            releases,
+            uploaders: [sub.UserNickName],
+            flagged: sub.SubAutoTranslation === "1",
+          }),
           fileName: sub.SubFileName ?? null,
+          downloads: normalizeDownloadCount(sub.SubDownloadsCnt),
+          uploadedAt: normalizeUploadDate(sub.SubAddDate),
+          season: request.season != null ? parseEpisodeField(sub.SeriesSeason) : null,
+          episode: request.season != null ? parseEpisodeField(sub.SeriesEpisode) : null,
+          matchedBy: sub.MatchedBy === "moviehash" ? "hash" : null,
         };
       }
       return null;
@@ -96,3 +150,45 @@ export async function processOpenSubtitlesResults(
   );
   return subtitles.filter((sub): sub is ResponseType => sub !== null);
 }
+
+registerProvider({
+  name: "opensubtitles",
+  displayName: "OpenSubtitles",
+  capabilities: { movie: true, tv: true, hash: true, season: true },
+  enabled: true,
+  defaultFor: { movie: true, tv: true },
+  timeoutMs: 8_000,
+  reliability: 0.9,
+  flagsHearingImpaired: true,
+  // Download ids carry no suffix: `/c/{vrf}/id/{fileId}`
+  statusSamples: {
+    movie: ["id=tt36856278", "id=tt1490017", "id=508943"],
+    tv: [
+      "id=tt2861424&season=1&episode=1",
+      "id=tt0306414&season=1&episode=1",
+      "id=tt14044212&season=1&episode=1",
+      "id=46511&season=1&episode=1",
+    ],
+  },
+  async search(request) {
+    const data = await searchOpensubtitles(request);
+    return processOpenSubtitlesResults(data, request);
+  },
+  buildDownloadLocator(item) {
+    const vrfMatch = item.url.match(/vrf-([a-z0-9]+)/);
+    const fileIdMatch = item.url.match(/file\/(\d+)/);
+    if (!vrfMatch?.[1] || !fileIdMatch?.[1]) {
+      return null;
+    }
+    return { vrf: vrfMatch[1], fileId: fileIdMatch[1] };
+  },
+  resolveDownload({ vrf, fileId, format }) {
+    const filenameParts = fileId.split(".");
+    return {
+      url: `https://dl.opensubtitles.org/en/download/subencoding-utf8/src-api/vrf-${vrf}/file/${fileId}`,
+      headers: { "X-User-Agent": "VLSub 0.10.3" }, // opensub needs this header
+      fetchMode: "proxy",
+      format: format || (filenameParts.length > 1 ? filenameParts.pop() : undefined),
+    };
+  },
+});
@@ -1,12 +1,18 @@
 /** @format */
 
 import type { RequestType, ResponseType } from "~/utils/types";
-import { languageToCountryCode } from "~/utils/lookup";
+import {
+  canonicalizeLanguageTag,
+  getBaseLanguage,
+  getLanguageFlagCode,
+  matchesLanguageBase,
+} from "~/utils/language";
 import {
   capitalizeFirstLetter,
+  detectMachineTranslation,
+  detectSubtitleType,
   extractFilenameFromDisposition,
   formatEncodingForOutput,
-  getMovieNameFromImdb,
   headersInitToObject,
   normalizeEncodingValue,
   normalizeFormatName,
@@ -14,9 +20,12 @@ import {
   readPositiveIntEnv,
   runWithConcurrency,
   safeCancelReadableStream,
-  extractOrigin,
+  normalizeUploadDate,
 } from "~/utils/utils";
+import { getTitleForImdb } from "~/utils/idMapping";
+import { getReleaseOrigin, parseReleaseInfo } from "~/utils/release";
 import { proxyFetch } from "~/utils/proxy";
+import { registerProvider } from "~/utils/providers";
 
 const SERVER_URL = "https://www.podnapisi.net/subtitles/";
 const PAGE_FETCH_CONCURRENCY = readPositiveIntEnv("PODNAPISI_PAGE_FETCH_CONCURRENCY", 6);
@@ -152,6 +161,8 @@ interface PodnapisiSubtitle {
   isForeign: boolean;
   pageLink: string;
   format?: string | null;
+  downloads: number | null;
+  uploadedAt: string | null;
 }
 
 type SubtitleDownloadMetadata = ReturnType<typeof parseFormatAndEncodingFromFilename>;
@@ -218,6 +229,12 @@ function resolveLanguageCode(language: string): string {
   const lower = language.toLowerCase();
   const normalized = podnapisiLanguageOverrides[lower] ?? lower;
 
+  // Regions and scripts Podnapisi does not list fall back to their language, e.g. es-419 to es
+  const base = getBaseLanguage(normalized);
+  if (!PODNAPISI_SUPPORTED_LANGUAGES.has(normalized) && PODNAPISI_SUPPORTED_LANGUAGES.has(base)) {
+    return base;
+  }
+
   if (!PODNAPISI_SUPPORTED_LANGUAGES.has(normalized)) {
     console.warn(
       `[Podnapisi] Requested language "${language}" is not in the official list, using "${normalized}" as-is.`,
@@ -553,18 +570,19 @@ async function fetchPodnapisiPage(
   return null;
 }
 
+// Null when even the first page could not be fetched
 async function fetchLanguageSubtitles(
   request: RequestType,
   movieName: string,
   apiLang: string | null,
   langLabel: string,
-): Promise<PodnapisiSubtitle[]> {
+): Promise<PodnapisiSubtitle[] | null> {
   const collected: PodnapisiSubtitle[] = [];
   const localSeen = new Set<string>();
 
   const firstPage = await fetchPodnapisiPage(request, movieName, apiLang, langLabel, 1);
   if (!firstPage) {
-    return collected;
+    return null;
   }
 
   for (const sub of firstPage.subtitles) {
@@ -681,6 +699,8 @@ function parseSubtitleXml(subtitleXml: string): PodnapisiSubtitle | null {
       isForeign,
       pageLink,
       format: formatText && formatText.toUpperCase() !== "N/A" ? formatText : null,
+      downloads: getXmlNumberContent(subtitleXml, "downloads"),
+      uploadedAt: normalizeUploadDate(getXmlNumberContent(subtitleXml, "time")),
     };
   } catch (error) {
     console.error(`[Podnapisi] Error parsing subtitle XML:`, error);
@@ -756,7 +776,7 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
 
   try {
     // Get the movie/show name from IMDB ID
-    const movieName = await getMovieNameFromImdb(request.imdbId);
+    const movieName = await getTitleForImdb(request.imdbId);
     if (!movieName) {
       console.warn("[Podnapisi] Could not get movie name from IMDB ID");
       return [];
@@ -780,15 +800,6 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
       languageTargets.push({ label: "all", api: null });
     }
 
-    const languageFilterSet =
-      request.languages && request.languages.length > 0 ?
-        new Set(
-          (Array.isArray(request.languages) ? request.languages : [request.languages]).map((lang) =>
-            resolveLanguageCode(lang),
-          ),
-        )
-      : null;
-
     const allSubtitles: PodnapisiSubtitle[] = [];
     const seenPids = new Set<string>();
 
@@ -798,6 +809,11 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
       async ({ label, api }) => fetchLanguageSubtitles(request, movieName, api, label),
     );
 
+    // Languages that failed are skipped, unless they all did and Podnapisi is down
+    if (perLanguageResults.every((subtitles) => subtitles === null)) {
+      throw new Error("Podnapisi search failed for every requested language.");
+    }
+
     for (const subtitles of perLanguageResults) {
       if (!subtitles) {
         continue;
@@ -840,11 +856,6 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
     const candidates: SubtitleCandidate[] = [];
 
     for (const subtitle of allSubtitles) {
-      // Skip foreign-only subtitles unless specifically requested (not implemented)
-      if (subtitle.isForeign) {
-        continue;
-      }
-
       // Season/Episode matching for TV shows
       if (request.season !== undefined && request.season !== null) {
         if (subtitle.season !== request.season) {
@@ -859,21 +870,16 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
         }
       }
 
-      // Hearing impaired filter
-      if (request.hearingImpaired === true && !subtitle.isHearingImpaired) {
-        continue;
-      }
-
-      // Get language code from the subtitle's language
-      // Only normalize specific known patterns like "sr-latn" to "sr", preserve other codes
-      const langCode = subtitle.language.toLowerCase();
+      // Get language code from the subtitle's language, keeping regions such as "pt-br"
+      const langCode =
+        canonicalizeLanguageTag(subtitle.language) ?? subtitle.language.toLowerCase();
 
-      if (languageFilterSet && !languageFilterSet.has(langCode)) {
+      if (!matchesLanguageBase(langCode, request.languages)) {
         continue;
       }
 
       // Get country code for flag
-      const countryCode = languageToCountryCode[langCode] || langCode.toUpperCase();
+      const countryCode = getLanguageFlagCode(langCode);
 
       // Create compatible URL
       // Format: podnapisi/{pid}/download.zip
@@ -952,6 +958,7 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
           (typeof subtitle.title === "string" && subtitle.title.trim().length > 0 ?
             subtitle.title.trim()
           : null);
+        const releaseInfo = parseReleaseInfo([primaryRelease, ...normalizedReleases]);
 
         return {
           id: subtitle.pid,
@@ -966,12 +973,22 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
           source: "podnapisi",
           release: primaryRelease,
           releases: normalizedReleases,
-          origin:
-            extractOrigin(primaryRelease) ||
-            (normalizedReleases.length ?
-              (normalizedReleases.map((r) => extractOrigin(r)).find((o) => o) ?? null)
-            : null),
+          origin: getReleaseOrigin(releaseInfo),
+          releaseInfo,
+          // Foreign-only subtitles are forced tracks
+          type: detectSubtitleType([primaryRelease, ...normalizedReleases], {
+            forced: subtitle.isForeign,
+            hearingImpaired: subtitle.isHearingImpaired,
+          }),
+          machineTranslated: detectMachineTranslation({
+            releases: [primaryRelease, ...normalizedReleases],
+          }),
           fileName: subtitle.title,
+          downloads: subtitle.downloads,
+          uploadedAt: subtitle.uploadedAt,
+          season: subtitle.season || null,
+          // Season packs come back with episode 0
+          episode: subtitle.episode || null,
         } satisfies ResponseType;
       },
     );
@@ -985,6 +1002,53 @@ export async function searchPodnapisi(request: RequestType): Promise<ResponseTyp
     return results;
   } catch (error) {
     console.error(`[Podnapisi] Error searching for subtitles:`, error);
-    return [];
+    throw error;
   }
 }
+
+const PODNAPISI_DOWNLOAD_HEADERS: Record<string, string> = {
+  Accept: "application/zip,application/octet-stream;q=0.9,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+  Referer: "https://www.podnapisi.net/",
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+};
+
+registerProvider({
+  name: "podnapisi",
+  displayName: "Podnapisi",
+  capabilities: { movie: true, tv: true, hash: false, season: true },
+  enabled: true,
+  defaultFor: { movie: false, tv: false },
+  timeoutMs: 8_000,
+  reliability: 0.8,
+  flagsHearingImpaired: true,
+  downloadSuffix: ".podnapisi",
+  statusSamples: {
+    movie: ["id=tt36856278", "id=tt1490017", "id=508943"],
+    tv: [
+      "id=tt2861424&season=1&episode=1",
+      "id=tt0306414&season=1&episode=1",
+      "id=tt14044212&season=1&episode=1",
+      "id=46511&season=1&episode=1",
+    ],
+  },
+  search: searchPodnapisi,
+  buildDownloadLocator(item) {
+    const [source, pid, filename] = item.url.split("/");
+    if (source !== "podnapisi" || !pid || !filename) {
+      return null;
+    }
+    return { vrf: pid, fileId: filename.replace(/[^a-zA-Z0-9-]/g, "-") };
+  },
+  resolveDownload({ vrf }) {
+    return {
+      url: `${SERVER_URL}${vrf}/download`,
+      headers: PODNAPISI_DOWNLOAD_HEADERS,
+      fetchMode: "proxy",
+      container: "zip",
+      extractFetchMode: "direct",
+      format: "zip",
+    };
+  },
+});
@@ -2,14 +2,25 @@
 
 import {
   capitalizeFirstLetter,
-  getMovieNameFromImdb,
   numberToCardinal,
-  extractOrigin,
+  normalizeDownloadCount,
+  normalizeUploadDate,
+  isSeasonRequest,
+  detectEpisodeNumber,
+  detectMachineTranslation,
+  detectSubtitleType,
 } from "~/utils/utils";
+import { getTitleForImdb } from "~/utils/idMapping";
 import type { RequestType, ResponseType, SubdlPageProps } from "~/utils/types";
-import { languageToCountryCode } from "~/utils/lookup";
+import { registerProvider } from "~/utils/providers";
+import {
+  canonicalizeLanguageTag,
+  getLanguageFlagCode,
+  matchesLanguageBase,
+} from "~/utils/language";
 import { safeJsonParse } from "~/utils/json";
 import { proxyFetch } from "~/utils/proxy";
+import { getReleaseOrigin, parseReleaseInfo } from "~/utils/release";
 import ISO6391 from "iso-639-1";
 
 const buildId: string | null = "Ce4_1IeW-O1D1kv4jnft4";
@@ -22,7 +33,6 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
     languages: request.languages,
     formats: request.formats,
     encodings: request.encodings,
-    hearingImpaired: request.hearingImpaired,
   });
 
   try {
@@ -50,7 +60,7 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
       }
     };
 
-    const derivedTitle = await getMovieNameFromImdb(imdbId);
+    const derivedTitle = await getTitleForImdb(imdbId);
     pushCandidate(derivedTitle);
     pushCandidate(imdbId);
 
@@ -77,6 +87,9 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
 
     let searchData: SubdlNextSearchResponse | null = null;
     let successfulSlug: string | null = null;
+    // Why the last slug failed; only reported when no slug got an answer at all
+    let searchFailure: string | null = null;
+    let answered = false;
 
     for (const slug of slugCandidates) {
       const encodedSlug = encodeURIComponent(slug);
@@ -92,6 +105,7 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
         console.log(response);
       } catch (requestError) {
         console.warn(`[SubDL Source] Search request failed for slug "${slug}":`, requestError);
+        searchFailure = requestError instanceof Error ? requestError.message : String(requestError);
         continue;
       }
 
@@ -99,8 +113,10 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
         console.warn(
           `[SubDL Source] SubDL search slug "${slug}" returned status ${response.status}.`,
         );
+        searchFailure = `status ${response.status}`;
         continue;
       }
+      answered = true;
 
       const responseText = await response.text();
       const parsed = safeJsonParse<SubdlNextSearchResponse>(responseText);
@@ -116,6 +132,10 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
       );
     }
 
+    if (!searchData && !answered) {
+      throw new Error(`SubDL search failed (${searchFailure ?? "no response"}).`);
+    }
+
     if (!searchData) {
       console.warn(
         `[SubDL Source] No SubDL results found for IMDb ID ${imdbId} after testing ${slugCandidates.length} search term(s).`,
@@ -269,7 +289,8 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
         return [];
       }
 
-      const isTvShow = request.season !== undefined && request.episode !== undefined;
+      const isTvShow = request.season != null && request.episode != null;
+      const isSeason = isSeasonRequest(request);
 
       const collected: ResponseType[] = [];
 
@@ -277,28 +298,30 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
         let langCode = "unknown";
         const lowerLangName = language.toLowerCase().trim();
 
-        // Custom mapping for non-standard language names
+        // Custom mapping for non-standard language names, as BCP-47 tags where a region or
+        // script is named
         const customLanguageMap: Record<string, string> = {
-          "brazillian-portuguese": "pt",
-          "brazilian-portuguese": "pt",
-          "brazilian portuguese": "pt",
+          "brazillian-portuguese": "pt-BR",
+          "brazilian-portuguese": "pt-BR",
+          "brazilian portuguese": "pt-BR",
           portugese: "pt",
-          "chinese-bg-code": "zh",
-          "chinese simplified": "zh",
-          "chinese traditional": "zh",
+          "chinese-bg-code": "zh-Hans",
+          "chinese simplified": "zh-Hans",
+          "chinese traditional": "zh-Hant",
           farsi_persian: "fa",
           "farsi/persian": "fa",
           farsi: "fa",
           ukranian: "uk",
-          "português-brasileiro": "pt",
-          "português-brasil": "pt",
+          "português-brasileiro": "pt-BR",
+          "português-brasil": "pt-BR",
         };
 
-        // Check custom map first, then try ISO6391
+        // Check custom map first, then try ISO6391, then 639-3 names such as "Filipino"
         if (lowerLangName in customLanguageMap) {
           langCode = customLanguageMap[lowerLangName];
         } else {
-          const isoLangCode = ISO6391.getCode(lowerLangName);
+          const isoLangCode =
+            ISO6391.getCode(lowerLangName) || canonicalizeLanguageTag(lowerLangName);
           if (isoLangCode) {
             langCode = isoLangCode.toLowerCase();
           } else {
@@ -308,11 +331,7 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
           }
         }
 
-        if (
-          request.languages &&
-          request.languages.length > 0 &&
-          !request.languages.includes(langCode)
-        ) {
+        if (!matchesLanguageBase(langCode, request.languages)) {
           continue;
         }
 
@@ -322,10 +341,6 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
             continue;
           }
 
-          if (request.hearingImpaired === true && subtitle.hi !== 1) {
-            continue;
-          }
-
           if (isTvShow) {
             // for season pages, we need to check if the subtitle matches the requested episode
             // some subtitles have season/episode info, others have it in the title or link
@@ -350,15 +365,30 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
             }
           }
 
+          // Whole-season searches keep the full season page, tagged with each entry's episode
+          let episodeNumber: number | null = isTvShow ? request.episode : null;
+          if (isSeason) {
+            if (subtitle.season && subtitle.season !== request.season) {
+              continue;
+            }
+            episodeNumber =
+              subtitle.episode > 0 ?
+                subtitle.episode
+              : detectEpisodeNumber(
+                  [subtitle.title, ...(subtitle.releases ?? []), subtitle.extra],
+                  request.season,
+                );
+          }
+
           const compatibleUrl = `subdl/${subtitle.n_id || subtitle.id}/${subtitle.link}`;
 
-          const countryCode =
-            languageToCountryCode[langCode] ||
-            (langCode === "unknown" ? "UN" : langCode.toUpperCase());
+          const countryCode = langCode === "unknown" ? "UN" : getLanguageFlagCode(langCode);
 
           let mediaDisplay = pageProps.movieInfo.name;
           if (isTvShow) {
             mediaDisplay = `${pageProps.movieInfo.name} - S${request.season.toString().padStart(2, "0")}E${request.episode.toString().padStart(2, "0")}`;
+          } else if (isSeason) {
+            mediaDisplay = `${pageProps.movieInfo.name} - Season ${request.season}`;
           }
 
           const normalizedReleases =
@@ -386,7 +416,7 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
             }
           }
 
-          const origin = primaryRelease ? extractOrigin(primaryRelease) : null;
+          const releaseInfo = parseReleaseInfo([primaryRelease, ...normalizedReleases]);
 
           collected.push({
             id: subtitle.n_id || String(subtitle.id),
@@ -401,8 +431,21 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
             source: "subdl",
             release: primaryRelease ?? null,
             releases: normalizedReleases,
-            origin,
+            origin: getReleaseOrigin(releaseInfo),
+            releaseInfo,
+            type: detectSubtitleType([primaryRelease, ...normalizedReleases], {
+              hearingImpaired: subtitle.hi === 1,
+            }),
+            machineTranslated: detectMachineTranslation({
+              comments: [subtitle.comment],
+              uploaders: [subtitle.author],
+              releases: [primaryRelease, ...normalizedReleases],
+            }),
             fileName: subtitle.link ?? null,
+            downloads: normalizeDownloadCount(subtitle.downloads),
+            uploadedAt: normalizeUploadDate(subtitle.date),
+            season: request.season ?? null,
+            episode: episodeNumber,
           });
         }
       }
@@ -411,8 +454,11 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
     };
 
     const uniqueResults = new Map<string, ResponseType>();
+    const items = searchItems.slice(0, 3);
+    let lastItemError: unknown = null;
+    let failedItems = 0;
 
-    for (const item of searchItems.slice(0, 3)) {
+    for (const item of items) {
       try {
         const subtitles = await collectFromSearchItem(item);
         for (const subtitle of subtitles) {
@@ -426,12 +472,59 @@ export async function searchSubdl(request: RequestType): Promise<ResponseType[]>
           `[SubDL Source] Failed to collect subtitles for slug ${item.slug}:`,
           itemError,
         );
+        lastItemError = itemError;
+        failedItems += 1;
       }
     }
 
+    // One failing title is skipped; every title failing means SubDL itself is broken
+    if (failedItems === items.length && lastItemError) {
+      throw lastItemError;
+    }
+
     return Array.from(uniqueResults.values());
   } catch (error) {
     console.error(`[SubDL Source] Error searching for subtitles:`, error);
-    return [];
+    throw error;
   }
 }
+
+registerProvider({
+  name: "subdl",
+  displayName: "SubDL",
+  capabilities: { movie: true, tv: true, hash: false, season: true },
+  enabled: true,
+  defaultFor: { movie: false, tv: false },
+  reliability: 0.75,
+  flagsHearingImpaired: true,
+  downloadSuffix: ".subdl",
+  statusSamples: {
+    movie: ["id=tt1599348", "id=tt36856278", "id=tt1490017", "id=508943"],
+    tv: [
+      "id=tt2861424&season=1&episode=1",
+      "id=tt0306414&season=1&episode=1",
+      "id=tt14044212&season=1&episode=1",
+      "id=46511&season=1&episode=1",
+    ],
+  },
+  search: searchSubdl,
+  buildDownloadLocator(item) {
+    const [source, id, filename] = item.url.split("/");
+    if (source !== "subdl" || !id || !filename) {
+      return null;
+    }
+    const cleanFilename = filename.endsWith(".zip") ? filename.slice(0, -4) : filename;
+    const downloadId = cleanFilename.includes("-") ? cleanFilename : `${id}-${cleanFilename}`;
+    return { vrf: id, fileId: downloadId };
+  },
+  resolveDownload({ fileId }) {
+    const subdlFilename = fileId.endsWith(".zip") ? fileId : `${fileId}.zip`;
+    return {
+      url: `https://dl.subdl.com/subtitle/${subdlFilename}`,
+      headers: {}, // subdl doesn't need special headers
+      fetchMode: "proxy",
+      container: "zip",
+      format: "zip",
+    };
+  },
+});
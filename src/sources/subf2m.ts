@@ -1,8 +1,22 @@
 /** @format */
 
 import { languageToCountryCode, subDLlanguageToCountryCode } from "~/utils/lookup";
-import { getMovieNameFromImdb, numberToOrdinal, extractOrigin } from "~/utils/utils";
+import {
+  canonicalizeLanguageTag,
+  getLanguageFlagCode,
+  matchesLanguageBase,
+} from "~/utils/language";
+import {
+  numberToOrdinal,
+  detectEpisodeNumber,
+  isHearingImpairedName,
+  detectSubtitleType,
+  detectMachineTranslation,
+} from "~/utils/utils";
+import { getIdsForImdb } from "~/utils/idMapping";
+import { getReleaseOrigin, parseReleaseInfo } from "~/utils/release";
 import type { RequestType, ResponseType } from "~/utils/types";
+import { registerProvider } from "~/utils/providers";
 import { capitalizeFirstLetter } from "~/utils/utils";
 import { proxyFetch } from "~/utils/proxy";
 import ISO6391 from "iso-639-1";
@@ -139,70 +153,24 @@ export async function searchSubf2m(request: RequestType): Promise<ResponseType[]
     return results;
   } catch (error) {
     console.error(`[Subf2m] ❌ Search failed: ${error}`);
-    return [];
+    throw error;
   }
 }
 
 /**
- * Extract movie name and year from IMDb ID using TMDb API directly
+ * Extract movie name and year from IMDb ID
  */
 async function extractMovieDataFromImdb(
   imdbId: string,
 ): Promise<{ name: string | null; year: number | null }> {
-  // Randomly choose between two API keys
-  const apiKeys = ["xxx", "xxx"];
-  const apiKey = apiKeys[Math.floor(Math.random() * apiKeys.length)];
-
-  try {
-    // Use TMDb's find endpoint to get movie/TV show data from IMDb ID
-    const findUrl = `https://api.themoviedb.org/3/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
-    const response = await fetch(findUrl);
-
-    if (!response.ok) {
-      throw new Error(`TMDb API request failed with status ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Check for movie results first
-    if (data.movie_results && data.movie_results.length > 0) {
-      const movie = data.movie_results[0];
-      const name = movie.title;
-      const year = movie.release_date ? new Date(movie.release_date).getFullYear() : null;
-      return { name, year };
-    }
-
-    // Check for TV show results
-    if (data.tv_results && data.tv_results.length > 0) {
-      const tvShow = data.tv_results[0];
-      const name = tvShow.name;
-      const year = tvShow.first_air_date ? new Date(tvShow.first_air_date).getFullYear() : null;
-      return { name, year };
-    }
-
-    return { name: null, year: null };
-  } catch (error) {
-    // Fallback: try the original getMovieNameFromImdb function
-    try {
-      const movieName = await getMovieNameFromImdb(imdbId);
-      if (movieName) {
-        // Try to extract year from the movie name if it's included
-        const yearMatch = movieName.match(/\((\d{4})\)$/);
-        if (yearMatch) {
-          const year = parseInt(yearMatch[1], 10);
-          const nameWithoutYear = movieName.replace(/\s*\(\d{4}\)$/, "").trim();
-          return { name: nameWithoutYear, year };
-        }
-
-        return { name: movieName, year: null };
-      }
-    } catch (fallbackError) {
-      // ignore
-    }
-
-    // Final fallback: use the IMDB ID directly for search
+  const ids = await getIdsForImdb(imdbId);
+  if (!ids?.title) {
+    // Fallback: use the IMDB ID directly for search
     return { name: imdbId, year: null };
   }
+
+  const year = ids.releaseDate ? Number.parseInt(ids.releaseDate.slice(0, 4), 10) : Number.NaN;
+  return { name: ids.title, year: Number.isNaN(year) ? null : year };
 }
 
 /**
@@ -210,23 +178,17 @@ async function extractMovieDataFromImdb(
  */
 async function searchMovies(query: string): Promise<MovieSearchResult[]> {
   const url = `https://subf2m.co/subtitles/searchbytitle?query=${encodeURIComponent(query)}`;
+  const response = await subf2mFetch(url);
 
-  try {
-    const response = await subf2mFetch(url);
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      return [];
-    }
+  if (!response.ok) {
+    throw new Error(`Search request failed with status ${response.status}`);
+  }
 
-    const html = await response.text();
+  const html = await response.text();
 
-    const results = parseSearchResults(html);
+  const results = parseSearchResults(html);
 
-    return results;
-  } catch (error) {
-    return [];
-  }
+  return results;
 }
 
 /**
@@ -726,14 +688,13 @@ function formatSubtitleResults(
   const results: ResponseType[] = [];
 
   for (const subtitle of subtitles) {
-    // Convert language name to ISO code
+    // Convert language name to ISO code, keeping any region or script the name carries
     const langCode = getLanguageCode(subtitle.language);
+    const languageTag = canonicalizeLanguageTag(langCode) ?? langCode;
 
     // Apply language filter
-    if (request.languages && request.languages.length > 0) {
-      if (!request.languages.includes(langCode)) {
-        continue;
-      }
+    if (!matchesLanguageBase(languageTag, request.languages)) {
+      continue;
     }
 
     // Apply format filter (assume SRT format for subf2m)
@@ -779,8 +740,14 @@ function formatSubtitleResults(
       }
     }
 
+    // Whole-season searches keep every entry on the season page, tagged with its episode
+    const episodeNumber =
+      request.season != null && request.episode == null ?
+        detectEpisodeNumber([...subtitle.releases, subtitle.comment], request.season)
+      : (request.episode ?? null);
+
     // Generate flag URL
-    const countryCode = languageToCountryCode[langCode] || langCode.toUpperCase();
+    const countryCode = getLanguageFlagCode(languageTag);
     const flagUrl = `https://flagsapi.com/${countryCode}/flat/24.png`;
 
     // Parse the subf2m download URL to extract movie slug, language, and ID
@@ -850,10 +817,8 @@ function formatSubtitleResults(
 
     // Detect hearing impaired status from releases, comments, or subtitle details page
     const isHearingImpaired = !!(
-      subtitle.releases.some((release) =>
-        /\b(hi|hearing.impaired|sdh|cc|closed.caption)\b/i.test(release),
-      ) ||
-      /\b(hi|hearing.impaired|sdh|cc|closed.caption)\b/i.test(subtitle.comment) ||
+      subtitle.releases.some((release) => isHearingImpairedName(release)) ||
+      isHearingImpairedName(subtitle.comment) ||
       (subtitle.subtitleDetails && subtitle.subtitleDetails.hearingImpaired === true)
     );
 
@@ -861,10 +826,7 @@ function formatSubtitleResults(
       .map((release) => release?.trim())
       .filter((release): release is string => Boolean(release && release.length > 0));
 
-    const origin =
-      normalizedReleases.length ?
-        (normalizedReleases.map((r) => extractOrigin(r)).find((o) => o) ?? null)
-      : null;
+    const releaseInfo = parseReleaseInfo(normalizedReleases);
 
     results.push({
       id: subtitleId,
@@ -873,14 +835,25 @@ function formatSubtitleResults(
       format: format,
       encoding: "UTF-8",
       display: displayName,
-      language: langCode,
+      language: languageTag,
       media: mediaDisplay,
       isHearingImpaired: isHearingImpaired,
       source: "subf2m",
       release: normalizedReleases[0] ?? null,
       releases: normalizedReleases,
-      origin,
+      origin: getReleaseOrigin(releaseInfo),
+      releaseInfo,
+      type: detectSubtitleType([...normalizedReleases, subtitle.comment], {
+        hearingImpaired: isHearingImpaired,
+      }),
+      machineTranslated: detectMachineTranslation({
+        comments: [subtitle.comment],
+        uploaders: [subtitle.author],
+        releases: normalizedReleases,
+      }),
       fileName: null,
+      season: request.season ?? null,
+      episode: episodeNumber,
     });
   }
 
@@ -888,7 +861,8 @@ function formatSubtitleResults(
 }
 
 /**
- * Convert language name to ISO 639-1 code using lookup tables and smart matching
+ * Convert language name to ISO 639-1 code using lookup tables and smart matching. Regional
+ * variants come back as the code or tag that names them, e.g. "pb" or "zh-Hant".
  */
 function getLanguageCode(languageName: string): string {
   const lowerLangName = languageName.toLowerCase().trim();
@@ -915,6 +889,8 @@ function getLanguageCode(languageName: string): string {
     nameToCodeMap["brazilian"] = "pb";
     nameToCodeMap["brazilian portuguese"] = "pb";
     nameToCodeMap["portuguese (brazil)"] = "pb";
+    nameToCodeMap["big 5 code"] = "zh-Hant";
+    nameToCodeMap["chinese bg code"] = "zh-Hans";
 
     return nameToCodeMap;
   };
@@ -961,7 +937,13 @@ function getLanguageCode(languageName: string): string {
     // ISO6391 might throw on invalid input
   }
 
-  // 5. Default to unknown if nothing matches
+  // 5. Try 639-3 names, for languages without a two-letter code such as "Filipino"
+  const iso6393Code = canonicalizeLanguageTag(lowerLangName);
+  if (iso6393Code) {
+    return iso6393Code;
+  }
+
+  // 6. Default to unknown if nothing matches
   console.warn(`[Subf2m] ⚠️  Unknown language: "${languageName}", defaulting to "unknown"`);
   return "unknown";
 }
@@ -1160,6 +1142,8 @@ async function searchMoviesEnhanced(name: string, season?: number): Promise<Movi
   const searchQueries = generateTvSearchQueries(name, season);
   const allResults: MovieSearchResult[] = [];
   const seenUrls = new Set<string>();
+  let lastError: unknown = null;
+  let failedQueries = 0;
 
   // try each search query and collect unique results
   for (const query of searchQueries) {
@@ -1189,9 +1173,74 @@ async function searchMoviesEnhanced(name: string, season?: number): Promise<Movi
       }
     } catch (error) {
       console.error(`[Subf2m] ❌ Search failed for query "${query}":`, error);
+      lastError = error;
+      failedQueries += 1;
       continue;
     }
   }
 
+  // Some query variants may fail; all of them failing means Subf2m is unreachable
+  if (failedQueries === searchQueries.length && lastError) {
+    throw lastError;
+  }
+
   return allResults;
 }
+
+const SUBF2M_DOWNLOAD_HEADERS = {
+  Accept:
+    "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+  Referer: "https://subf2m.co/",
+  "User-Agent":
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/135.0.0.0 Safari/537.36",
+};
+
+registerProvider({
+  name: "subf2m",
+  displayName: "Subf2m",
+  capabilities: { movie: true, tv: true, hash: false, season: true },
+  enabled: true,
+  defaultFor: { movie: false, tv: false },
+  reliability: 0.6,
+  downloadSuffix: ".subf2m",
+  statusSamples: {
+    movie: ["id=tt36856278", "id=tt1490017", "id=508943"],
+    tv: [
+      "id=tt2861424&season=1&episode=1",
+      "id=tt0306414&season=1&episode=1",
+      "id=46511&season=1&episode=1",
+    ],
+  },
+  search: searchSubf2m,
+  buildDownloadLocator(item) {
+    const [source, encodedPath, filename] = item.url.split("/");
+    if (source !== "subf2m" || !encodedPath || !filename) {
+      return null;
+    }
+    return { vrf: encodedPath, fileId: filename.replace(/[^a-zA-Z0-9-]/g, "-") };
+  },
+  resolveDownload({ vrf, format }) {
+    // Expected vrf format: {movieSlug}~{languageSlug}~{subtitleId}
+    const pathParts = vrf.split("~");
+    let url: string;
+    if (pathParts.length === 3) {
+      const [movieSlug, languageSlug, subtitleId] = pathParts;
+      url = `https://subf2m.co/subtitles/${movieSlug}/${languageSlug}/${subtitleId}/download`;
+    } else {
+      console.error(
+        `[Subf2m Download] ❌ Invalid vrf format: ${vrf}. Expected format: movieSlug~languageSlug~subtitleId`,
+      );
+      url = `https://subf2m.co/subtitles/download/${vrf}`;
+    }
+
+    // subf2m rejects our proxy's API-Token header, and typically serves ZIPs holding SRT files
+    return {
+      url,
+      headers: SUBF2M_DOWNLOAD_HEADERS,
+      fetchMode: "direct",
+      container: "zip",
+      format: format || "srt",
+    };
+  },
+});
@@ -1,10 +1,9 @@
-export const sourcesConfig = {
-  subdl: false,  // Cloudflare Clearance stopping me
+// Per-source overrides of SubtitleProvider.enabled, keyed by provider name
+export const sourcesConfig: Record<string, boolean> = {
+  subdl: false, // Cloudflare Clearance stopping me
   subf2m: true,
   opensubtitles: true,
   podnapisi: true,
   animetosho: true,
   gestdown: true,
 };
-
-export type SourceName = keyof typeof sourcesConfig;
@@ -0,0 +1,135 @@
+/** @format */
+
+import type { H3Event } from "h3";
+import type { CacheFilter } from "~/utils/cache";
+import { getProviders } from "~/sources";
+import { createErrorResponse } from "~/utils/utils";
+
+// Cache key prefixes the `type` parameter picks between
+const CACHE_TYPE_PREFIXES: Record<string, string> = {
+  search: "search:",
+  download: "download:",
+  ids: "ids:",
+};
+
+// Compare without bailing out at the first difference, so timing does not leak the token
+function tokensMatch(given: string, expected: string): boolean {
+  let difference = given.length ^ expected.length;
+  for (let index = 0; index < expected.length; index++) {
+    difference |= (given.charCodeAt(index) || 0) ^ expected.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+/**
+ * Check the `Authorization: Bearer <ADMIN_TOKEN>` header. Returns an error Response when the
+ * caller may not use the admin API, which is off entirely while ADMIN_TOKEN is unset.
+ */
+export function requireAdmin(event: H3Event): Response | null {
+  const expected = typeof process !== "undefined" ? process.env?.ADMIN_TOKEN?.trim() : undefined;
+  if (!expected) {
+    return createErrorResponse(
+      404,
+      "Not found",
+      "The admin API is disabled. Set ADMIN_TOKEN to enable it.",
+    );
+  }
+
+  const header = getRequestHeader(event, "authorization") ?? "";
+  const given = header.replace(/^Bearer\s+/i, "").trim();
+  if (!given || !tokensMatch(given, expected)) {
+    return createErrorResponse(
+      401,
+      "Unauthorized",
+      "Send the admin token as a bearer token in the Authorization header.",
+    );
+  }
+  return null;
+}
+
+function parsePositiveInt(value: unknown): number | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Parse cache criteria from admin query parameters: `title`, `id` (IMDb), `season`,
+ * `episode`, `source` and `type` (search, download or ids).
+ */
+export function parseCacheFilter(query: Record<string, unknown>): CacheFilter | Response {
+  const filter: CacheFilter = {};
+
+  if (typeof query.title === "string" && query.title.trim()) {
+    filter.title = query.title.trim();
+  }
+
+  if (query.id !== undefined) {
+    const id = String(query.id).trim().toLowerCase();
+    if (!/^tt\d+$/.test(id)) {
+      return createErrorResponse(
+        400,
+        "Invalid id",
+        "The id must be an IMDb id.",
+        "/admin/cache?id=tt0944947",
+      );
+    }
+    filter.imdbId = id;
+  }
+
+  const season = parsePositiveInt(query.season);
+  const episode = parsePositiveInt(query.episode);
+  if (season === null || episode === null) {
+    return createErrorResponse(
+      400,
+      "Invalid season or episode",
+      "Season and episode must be positive whole numbers.",
+      "/admin/cache?id=tt0944947&season=1&episode=1",
+    );
+  }
+  filter.season = season;
+  filter.episode = episode;
+
+  if (query.source !== undefined) {
+    const source = String(query.source).trim().toLowerCase();
+    const providerNames = getProviders().map((provider) => provider.name);
+    if (!providerNames.includes(source)) {
+      return createErrorResponse(
+        400,
+        "Invalid source",
+        `Source must be one of the following: ${providerNames.join(", ")}.`,
+        "/admin/cache?source=subdl",
+      );
+    }
+    filter.source = source;
+  }
+
+  if (query.type !== undefined) {
+    const prefix = CACHE_TYPE_PREFIXES[String(query.type).trim().toLowerCase()];
+    if (!prefix) {
+      return createErrorResponse(
+        400,
+        "Invalid type",
+        `Type must be one of the following: ${Object.keys(CACHE_TYPE_PREFIXES).join(", ")}.`,
+        "/admin/cache?type=search&title=severance",
+      );
+    }
+    filter.prefix = prefix;
+  }
+
+  return filter;
+}
+
+export function hasCacheFilter(filter: CacheFilter): boolean {
+  return Object.values(filter).some((value) => value !== undefined);
+}
+
+// Admin responses are never cached
+export function adminResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,154 @@
+/** @format */
+
+import type { H3Event } from "h3";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_CACHE_TTL_SECONDS,
+  buildCacheKey,
+  cachedResponse,
+  getCachedJson,
+  getEmptyResultTtl,
+  getRecencyTtl,
+  getSearchCacheTtl,
+  putCachedJson,
+  type CacheableResponse,
+} from "~/utils/cache";
+import { cacheConfig } from "~/cacheConfig";
+import type { SourceReport } from "~/utils/types";
+import { getSearchCacheKey } from "~/utils/searchCache";
+
+// Outside Workers the cache falls back to the memory backend
+const event = { context: {} } as unknown as H3Event;
+
+function produceJson(body: unknown, ttlSeconds: number | null = 60): CacheableResponse {
+  return { response: new Response(JSON.stringify(body)), ttlSeconds };
+}
+
+beforeAll(() => {
+  vi.stubEnv("CACHE_BACKEND", "memory");
+  vi.stubEnv("CACHE_MEMORY_MAX_ENTRIES", "2");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("buildCacheKey", () => {
+  it("ignores parameter order and the host", () => {
+    expect(buildCacheKey("search:v1", new URL("https://a.example/search?language=en&id=1"))).toBe(
+      buildCacheKey("search:v1", new URL("https://b.example/search?id=1&language=en")),
+    );
+  });
+
+  it("keeps the order of repeated parameters", () => {
+    expect(
+      buildCacheKey("search:v1", new URL("https://a.example/search?language=fr&language=en")),
+    ).not.toBe(
+      buildCacheKey("search:v1", new URL("https://a.example/search?language=en&language=fr")),
+    );
+  });
+
+  it("leaves pagination out of search keys", () => {
+    expect(getSearchCacheKey(new URL("https://a.example/search?id=1&limit=20&offset=40"))).toBe(
+      getSearchCacheKey(new URL("https://a.example/search?id=1")),
+    );
+  });
+});
+
+describe("cachedResponse", () => {
+  it("serves a stored response until it expires", async () => {
+    const produce = vi.fn(async () => produceJson({ value: 1 }));
+    const first = await cachedResponse(event, "search:hit", produce);
+    const second = await cachedResponse(event, "search:hit", produce);
+
+    expect(first.headers.get("X-Cache")).toBe("MISS");
+    expect(second.headers.get("X-Cache")).toBe("HIT");
+    expect(await second.json()).toEqual({ value: 1 });
+    expect(produce).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not store responses without a TTL", async () => {
+    const produce = vi.fn(async () => produceJson({ error: true }, null));
+    await cachedResponse(event, "search:uncached", produce);
+    await cachedResponse(event, "search:uncached", produce);
+    expect(produce).toHaveBeenCalledTimes(2);
+  });
+
+  it("starts one refresh for concurrent stale hits", async () => {
+    vi.useFakeTimers({ now: Date.now(), toFake: ["Date"] });
+    await cachedResponse(event, "search:stale", async () => produceJson({ value: "old" }));
+    vi.setSystemTime(Date.now() + 120_000);
+
+    let release = () => {};
+    const refresh = vi.fn(
+      () =>
+        new Promise<CacheableResponse>((resolve) => {
+          release = () => resolve(produceJson({ value: "new" }));
+        }),
+    );
+    const stale = await Promise.all([
+      cachedResponse(event, "search:stale", refresh),
+      cachedResponse(event, "search:stale", refresh),
+    ]);
+    expect(stale.map((response) => response.headers.get("X-Cache"))).toEqual(["STALE", "STALE"]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    release();
+    await vi.waitFor(async () => {
+      const response = await cachedResponse(event, "search:stale", refresh);
+      expect(await response.json()).toEqual({ value: "new" });
+    });
+  });
+});
+
+describe("memory backend", () => {
+  it("evicts each kind of entry on its own", async () => {
+    await putCachedJson("ids:imdb:tt1", { value: 1 }, 60);
+    for (const index of [1, 2, 3]) {
+      await putCachedJson(`search:evict:${index}`, { value: index }, 60);
+    }
+
+    expect(await getCachedJson("search:evict:1")).toBeUndefined();
+    expect(await getCachedJson("search:evict:3")).toEqual({ value: 3 });
+    expect(await getCachedJson("ids:imdb:tt1")).toEqual({ value: 1 });
+  });
+});
+
+describe("recency TTLs", () => {
+  // A `YYYY-MM-DD` date this many days ago
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+  const report = (name: string): SourceReport => ({
+    name,
+    status: "ok",
+    count: 1,
+    durationMs: 10,
+  });
+
+  it("keeps new titles briefly and old ones long", () => {
+    expect(getRecencyTtl(daysAgo(1))).toBe(900);
+    expect(getRecencyTtl(daysAgo(7))).toBe(10_800);
+    expect(getRecencyTtl(daysAgo(30))).toBe(86_400);
+    expect(getRecencyTtl(daysAgo(200))).toBe(259_200);
+    expect(getRecencyTtl(daysAgo(5000))).toBe(cacheConfig.catalogueTtlSeconds);
+  });
+
+  it("treats unreleased titles as new and unknown dates as the default", () => {
+    expect(getRecencyTtl(daysAgo(-30))).toBe(900);
+    expect(getRecencyTtl(null)).toBe(DEFAULT_CACHE_TTL_SECONDS);
+    expect(getRecencyTtl("not a date")).toBe(DEFAULT_CACHE_TTL_SECONDS);
+  });
+
+  it("caps a search by the TTL of every source that answered", () => {
+    expect(getSearchCacheTtl([report("subdl")], daysAgo(5000))).toBe(
+      cacheConfig.catalogueTtlSeconds,
+    );
+    expect(getSearchCacheTtl([report("subdl"), report("gestdown")], daysAgo(5000))).toBe(86_400);
+    expect(getSearchCacheTtl([report("gestdown")], daysAgo(1))).toBe(900);
+  });
+
+  it("keeps empty searches briefly", () => {
+    expect(getEmptyResultTtl(daysAgo(5000))).toBe(cacheConfig.emptyResultTtlSeconds);
+    expect(getEmptyResultTtl(daysAgo(1))).toBe(900);
+  });
+});
@@ -0,0 +1,703 @@
+/** @format */
+
+import type { H3Event } from "h3";
+import type { SourceReport, SubtitleProvider } from "~/utils/types";
+import { getProvider } from "~/sources";
+import { cacheConfig } from "~/cacheConfig";
+import { hashString, readPositiveIntEnv } from "~/utils/utils";
+
+// Search results for titles of unknown age are kept for a week unless a source asks for less
+export const DEFAULT_CACHE_TTL_SECONDS = 604_800;
+// Subtitle files never change once uploaded
+export const DOWNLOAD_CACHE_TTL_SECONDS = 31_536_000;
+
+// What an entry is about, so the admin API can find entries by title, episode or source
+export type CacheTags = {
+  imdbId?: string | null;
+  title?: string | null;
+  season?: number | null;
+  episode?: number | null;
+  sources?: string[]; // providers queried for a search, or serving a download
+};
+
+export type CacheEntry = {
+  status: number;
+  headers: Record<string, string>;
+  body: Uint8Array;
+  storedAt: number; // epoch ms
+  ttlSeconds: number; // fresh for this long
+  staleSeconds: number; // then served stale while revalidating for this long
+  tags?: CacheTags;
+};
+
+// An entry as listed by the admin API, without its body
+export type CacheListing = Omit<CacheEntry, "body" | "headers"> & { key: string };
+
+export interface CacheBackend {
+  name: string;
+  // False when `list` can only see part of the cache
+  listsAllKeys: boolean;
+  get(key: string): Promise<CacheEntry | null>;
+  put(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(): Promise<CacheListing[]>;
+}
+
+type CacheLifetime = Pick<CacheEntry, "storedAt" | "ttlSeconds" | "staleSeconds">;
+
+// Time a backend has to keep an entry: its fresh and stale windows together
+function getRetentionSeconds(entry: CacheLifetime): number {
+  return entry.ttlSeconds + entry.staleSeconds;
+}
+
+function isExpired(entry: CacheLifetime, now = Date.now()): boolean {
+  return now - entry.storedAt > getRetentionSeconds(entry) * 1000;
+}
+
+type SerializedMeta = Omit<CacheEntry, "body">;
+
+function toMeta({ body: _body, ...meta }: CacheEntry): SerializedMeta {
+  return meta;
+}
+
+function toListing(key: string, { headers: _headers, ...meta }: SerializedMeta): CacheListing {
+  return { ...meta, key };
+}
+
+function encodeBody(body: Uint8Array): string {
+  if (typeof Buffer !== "undefined") {
+    return Buffer.from(body).toString("base64");
+  }
+  let binary = "";
+  for (let offset = 0; offset < body.length; offset += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(body.subarray(offset, offset + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+function decodeBody(value: string): Uint8Array {
+  if (typeof Buffer !== "undefined") {
+    return new Uint8Array(Buffer.from(value, "base64"));
+  }
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+// In-process LRU; entries are lost on restart and not shared between instances
+// The kind of entry a key holds, e.g. "search", "download" or "ids": its first segment
+function getKeyKind(key: string): string {
+  const separator = key.indexOf(":");
+  return separator === -1 ? key : key.slice(0, separator);
+}
+
+// Each kind of entry has its own LRU, so a burst of searches cannot evict downloads or ids
+class MemoryCacheBackend implements CacheBackend {
+  name = "memory";
+  listsAllKeys = true;
+  private pools = new Map<string, Map<string, CacheEntry>>();
+
+  constructor(
+    private capacities: Record<string, number>, // by key kind
+    private defaultCapacity: number,
+  ) {}
+
+  private getPool(key: string): Map<string, CacheEntry> {
+    const kind = getKeyKind(key);
+    let pool = this.pools.get(kind);
+    if (!pool) {
+      pool = new Map();
+      this.pools.set(kind, pool);
+    }
+    return pool;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const pool = this.getPool(key);
+    const entry = pool.get(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      pool.delete(key);
+      return null;
+    }
+    // Re-insert so the Map's insertion order tracks recency
+    pool.delete(key);
+    pool.set(key, entry);
+    return entry;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    const pool = this.getPool(key);
+    const maxEntries = this.capacities[getKeyKind(key)] ?? this.defaultCapacity;
+    pool.delete(key);
+    pool.set(key, entry);
+    while (pool.size > maxEntries) {
+      const oldest = pool.keys().next().value;
+      if (oldest === undefined) break;
+      pool.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.getPool(key).delete(key);
+  }
+
+  async list(): Promise<CacheListing[]> {
+    return [...this.pools.values()]
+      .flatMap((pool) => [...pool])
+      .filter(([, entry]) => !isExpired(entry))
+      .map(([key, entry]) => toListing(key, toMeta(entry)));
+  }
+}
+
+// One JSON file per entry, for self-hosted instances that should survive restarts
+class FileSystemCacheBackend implements CacheBackend {
+  name = "filesystem";
+  listsAllKeys = true;
+
+  constructor(private directory: string) {}
+
+  private async getPath(key: string): Promise<string> {
+    const { join } = await import("node:path");
+    return join(this.directory, `${hashString(key)}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { readFile, rm } = await import("node:fs/promises");
+    const path = await this.getPath(key);
+    try {
+      const stored = JSON.parse(await readFile(path, "utf8"));
+      // Different keys can share a short hash; the stored key tells them apart
+      if (stored.key !== key) return null;
+      const entry: CacheEntry = { ...stored.meta, body: decodeBody(stored.body) };
+      if (isExpired(entry)) {
+        await rm(path, { force: true });
+        return null;
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    const { mkdir, writeFile } = await import("node:fs/promises");
+    await mkdir(this.directory, { recursive: true });
+    const payload = JSON.stringify({ key, meta: toMeta(entry), body: encodeBody(entry.body) });
+    await writeFile(await this.getPath(key), payload, "utf8");
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import("node:fs/promises");
+    await rm(await this.getPath(key), { force: true });
+  }
+
+  async list(): Promise<CacheListing[]> {
+    const { readdir, readFile } = await import("node:fs/promises");
+    const { join } = await import("node:path");
+    const files = await readdir(this.directory).catch((): string[] => []);
+    const listings: CacheListing[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      try {
+        const stored = JSON.parse(await readFile(join(this.directory, file), "utf8"));
+        const meta = stored.meta as SerializedMeta;
+        if (!isExpired(meta)) listings.push(toListing(stored.key, meta));
+      } catch {
+        // Files being written or removed are skipped
+      }
+    }
+    return listings;
+  }
+}
+
+// Keys this isolate stored in the Cloudflare cache, which has no way to list its contents
+const cloudflareIndex = new Map<string, CacheListing>();
+const MAX_CLOUDFLARE_INDEX = 5000;
+
+// Cloudflare's per-colo cache. It only takes URLs, so keys are folded into one.
+class CloudflareCacheBackend implements CacheBackend {
+  name = "cloudflare";
+  listsAllKeys = false;
+
+  constructor(private cache: Cache) {}
+
+  private toUrl(key: string): string {
+    return `https://cache.internal/${encodeURIComponent(key)}`;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const response = await this.cache.match(this.toUrl(key));
+    const meta = response?.headers.get("X-Cache-Meta");
+    if (!response || !meta) return null;
+    const entry: CacheEntry = {
+      ...(JSON.parse(decodeURIComponent(meta)) as SerializedMeta),
+      body: new Uint8Array(await response.arrayBuffer()),
+    };
+    return isExpired(entry) ? null : entry;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    // The stored copy's Cache-Control only tells Cloudflare when to evict it
+    await this.cache.put(
+      this.toUrl(key),
+      new Response(entry.body.slice(), {
+        status: entry.status,
+        headers: {
+          "Cache-Control": `public, max-age=${getRetentionSeconds(entry)}`,
+          // Header values must be Latin-1, and titles often are not
+          "X-Cache-Meta": encodeURIComponent(JSON.stringify(toMeta(entry))),
+        },
+      }),
+    );
+    cloudflareIndex.delete(key);
+    cloudflareIndex.set(key, toListing(key, toMeta(entry)));
+    if (cloudflareIndex.size > MAX_CLOUDFLARE_INDEX) {
+      const oldest = cloudflareIndex.keys().next().value;
+      if (oldest !== undefined) cloudflareIndex.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.toUrl(key));
+    cloudflareIndex.delete(key);
+  }
+
+  async list(): Promise<CacheListing[]> {
+    return [...cloudflareIndex.values()].filter((listing) => !isExpired(listing));
+  }
+}
+
+type KvNamespace = {
+  getWithMetadata(
+    key: string,
+    options: { type: "arrayBuffer" },
+  ): Promise<{ value: ArrayBuffer | null; metadata: unknown }>;
+  put(
+    key: string,
+    value: ArrayBuffer | Uint8Array,
+    options: { expirationTtl?: number; metadata?: unknown },
+  ): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix?: string; cursor?: string }): Promise<{
+    keys: { name: string; metadata?: unknown }[];
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+};
+
+// Workers KV rejects metadata over 1024 bytes once serialized
+const KV_METADATA_LIMIT = 1024;
+const KV_TITLE_LIMIT = 64;
+
+function fitsKvMetadata(meta: SerializedMeta): boolean {
+  return new TextEncoder().encode(JSON.stringify(meta)).length <= KV_METADATA_LIMIT;
+}
+
+// Tags only serve admin filtering, so they give way first: the title is shortened, then dropped
+function toKvMetadata(meta: SerializedMeta): SerializedMeta {
+  if (fitsKvMetadata(meta) || !meta.tags) return meta;
+  const title = meta.tags.title;
+  if (title && title.length > KV_TITLE_LIMIT) {
+    const shortened = { ...meta, tags: { ...meta.tags, title: title.slice(0, KV_TITLE_LIMIT) } };
+    if (fitsKvMetadata(shortened)) return shortened;
+  }
+  const { tags: _tags, ...untagged } = meta;
+  return untagged;
+}
+
+// Workers KV: global and persistent, but eventually consistent
+class KvCacheBackend implements CacheBackend {
+  name = "kv";
+  listsAllKeys = true;
+
+  constructor(private namespace: KvNamespace) {}
+
+  // KV keys are capped at 512 bytes
+  private toKvKey(key: string): string {
+    return key.length <= 400 ? key : `${key.slice(0, 380)}#${hashString(key)}`;
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const { value, metadata } = await this.namespace.getWithMetadata(this.toKvKey(key), {
+      type: "arrayBuffer",
+    });
+    if (!value || !metadata) return null;
+    const entry: CacheEntry = { ...(metadata as SerializedMeta), body: new Uint8Array(value) };
+    return isExpired(entry) ? null : entry;
+  }
+
+  async put(key: string, entry: CacheEntry): Promise<void> {
+    await this.namespace.put(this.toKvKey(key), entry.body, {
+      // KV refuses expirations under a minute
+      expirationTtl: Math.max(60, getRetentionSeconds(entry)),
+      metadata: toKvMetadata(toMeta(entry)),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(this.toKvKey(key));
+  }
+
+  // Long keys are listed in their shortened form, which `get` and `delete` also accept
+  async list(): Promise<CacheListing[]> {
+    const listings: CacheListing[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.namespace.list({ cursor });
+      for (const { name, metadata } of page.keys) {
+        if (!metadata) continue;
+        const meta = metadata as SerializedMeta;
+        if (!isExpired(meta)) listings.push(toListing(name, meta));
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return listings;
+  }
+}
+
+function readStringEnv(envKey: string, defaultValue: string): string {
+  if (typeof process === "undefined" || !process?.env) return defaultValue;
+  return process.env[envKey]?.trim() || defaultValue;
+}
+
+function isKvNamespace(value: unknown): value is KvNamespace {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "getWithMetadata" in value &&
+    typeof value.getWithMetadata === "function"
+  );
+}
+
+function getCloudflareCache(): Cache | null {
+  // @ts-ignore - caches.default is available in CF Workers runtime
+  return typeof caches !== "undefined" && caches.default ? caches.default : null;
+}
+
+let memoryBackend: MemoryCacheBackend | null = null;
+let fileSystemBackend: FileSystemCacheBackend | null = null;
+
+/**
+ * The cache backend picked by `cacheConfig.backend` or CACHE_BACKEND. Null when caching is
+ * off or the chosen backend is unavailable in this runtime.
+ */
+export function getCacheBackend(event?: H3Event): CacheBackend | null {
+  const backend = readStringEnv("CACHE_BACKEND", cacheConfig.backend).toLowerCase();
+  const cloudflareCache = getCloudflareCache();
+
+  switch (backend) {
+    case "none":
+      return null;
+    case "cloudflare":
+      return cloudflareCache ? new CloudflareCacheBackend(cloudflareCache) : null;
+    case "kv": {
+      const binding = readStringEnv("CACHE_KV_BINDING", cacheConfig.kvBinding);
+      const namespace: unknown =
+        event?.context.cloudflare?.env?.[binding] ??
+        (globalThis as Record<string, unknown>)[binding];
+      if (!isKvNamespace(namespace)) {
+        console.warn(`[Cache] KV binding "${binding}" not found; caching is off.`);
+        return null;
+      }
+      return new KvCacheBackend(namespace);
+    }
+    case "filesystem":
+      fileSystemBackend ??= new FileSystemCacheBackend(
+        readStringEnv("CACHE_DIR", cacheConfig.directory),
+      );
+      return fileSystemBackend;
+    case "memory":
+      break;
+    default:
+      if (cloudflareCache) return new CloudflareCacheBackend(cloudflareCache);
+  }
+
+  if (!memoryBackend) {
+    const maxIds = readPositiveIntEnv("CACHE_MEMORY_MAX_IDS", cacheConfig.memoryMaxIds);
+    memoryBackend = new MemoryCacheBackend(
+      {
+        download: readPositiveIntEnv("CACHE_MEMORY_MAX_DOWNLOADS", cacheConfig.memoryMaxDownloads),
+        ids: maxIds,
+        traits: maxIds,
+      },
+      readPositiveIntEnv("CACHE_MEMORY_MAX_ENTRIES", cacheConfig.memoryMaxEntries),
+    );
+  }
+  return memoryBackend;
+}
+
+export function getStaleWhileRevalidateSeconds(): number {
+  return readPositiveIntEnv("CACHE_STALE_SECONDS", cacheConfig.staleWhileRevalidateSeconds);
+}
+
+// Cap on how long a source's results may be cached, overridable with CACHE_TTL_{NAME}_SECONDS
+export function getSourceCacheTtl(provider: SubtitleProvider): number | null {
+  const ttlSeconds = readPositiveIntEnv(
+    `CACHE_TTL_${provider.name.toUpperCase()}_SECONDS`,
+    provider.cacheTtlSeconds ?? 0,
+  );
+  return ttlSeconds > 0 ? ttlSeconds : null;
+}
+
+function getAgeDays(releaseDate: string, now = Date.now()): number | null {
+  const released = Date.parse(releaseDate);
+  return Number.isNaN(released) ? null : (now - released) / 86_400_000;
+}
+
+/**
+ * How long results for a title released on `releaseDate` stay fresh. New titles gain
+ * subtitles quickly, so they get short lifetimes; unreleased ones count as new. Titles
+ * without a known date keep the one-week default.
+ */
+export function getRecencyTtl(releaseDate: string | null): number {
+  const ageDays = releaseDate ? getAgeDays(releaseDate) : null;
+  if (ageDays === null) return DEFAULT_CACHE_TTL_SECONDS;
+
+  const tier = cacheConfig.recencyTiers.find(({ maxAgeDays }) => ageDays < maxAgeDays);
+  return (
+    tier?.ttlSeconds ??
+    readPositiveIntEnv("CACHE_CATALOGUE_TTL_SECONDS", cacheConfig.catalogueTtlSeconds)
+  );
+}
+
+/**
+ * How long a search may be cached: the title's recency TTL, capped by the TTL of any source
+ * that answered it so a source that changes often is not kept past its own.
+ */
+export function getSearchCacheTtl(sources: SourceReport[], releaseDate: string | null): number {
+  const sourceTtls = sources
+    .map((source) => getProvider(source.name))
+    .filter((provider): provider is SubtitleProvider => Boolean(provider))
+    .map(getSourceCacheTtl)
+    .filter((ttlSeconds): ttlSeconds is number => ttlSeconds !== null);
+  return Math.min(getRecencyTtl(releaseDate), ...sourceTtls);
+}
+
+// Searches that found nothing are cached briefly, and more briefly still for new titles
+export function getEmptyResultTtl(releaseDate: string | null): number {
+  return Math.min(
+    readPositiveIntEnv("CACHE_EMPTY_TTL_SECONDS", cacheConfig.emptyResultTtlSeconds),
+    getRecencyTtl(releaseDate),
+  );
+}
+
+// Cache-Control matching what the cache itself does with a response
+export function buildCacheControl(ttlSeconds: number | null): string {
+  return ttlSeconds === null ? "no-store" : (
+      `public, max-age=${ttlSeconds}, stale-while-revalidate=${getStaleWhileRevalidateSeconds()}`
+    );
+}
+
+/**
+ * Build a cache key from a request URL that does not depend on parameter order, so
+ * `?language=en&id=1` and `?id=1&language=en` share an entry. The host is left out;
+ * `ignoredParams` (e.g. pagination) are dropped.
+ */
+export function buildCacheKey(
+  namespace: string,
+  url: URL,
+  ignoredParams: readonly string[] = [],
+): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !ignoredParams.includes(name))
+    .map(([name, value]) => [name, value.trim()])
+    // Stable, so repeated parameters such as ordered languages keep their order
+    .sort(([aName], [bName]) => aName.localeCompare(bName));
+  const query = new URLSearchParams(params).toString();
+  return `${namespace}:${url.pathname}${query ? `?${query}` : ""}`;
+}
+
+// Background refreshes in flight, so concurrent stale hits on one key start a single refresh
+const pendingRefreshes = new Map<string, Promise<unknown>>();
+
+function runInBackground(event: H3Event, task: Promise<unknown>): void {
+  const guarded = task.catch((error) => console.error("[Cache] Background task failed:", error));
+  if (typeof event.waitUntil === "function") {
+    event.waitUntil(guarded);
+  }
+}
+
+function toResponse(entry: CacheEntry, state: "HIT" | "STALE" | "MISS"): Response {
+  const ageSeconds = Math.max(0, Math.floor((Date.now() - entry.storedAt) / 1000));
+  return new Response(entry.body.slice(), {
+    status: entry.status,
+    headers: { ...entry.headers, Age: String(ageSeconds), "X-Cache": state },
+  });
+}
+
+// What a cached handler produced; `ttlSeconds` null means the response must not be stored.
+// Error responses are stored too when given a TTL, which is how empty searches are cached.
+export type CacheableResponse = {
+  response: Response;
+  ttlSeconds: number | null;
+  tags?: CacheTags;
+};
+
+// Reads the response body, which can only be done once
+async function toCacheEntry(produced: CacheableResponse): Promise<CacheEntry> {
+  return {
+    status: produced.response.status,
+    headers: Object.fromEntries(produced.response.headers.entries()),
+    body: new Uint8Array(await produced.response.arrayBuffer()),
+    storedAt: Date.now(),
+    ttlSeconds: produced.ttlSeconds ?? 0,
+    staleSeconds: getStaleWhileRevalidateSeconds(),
+    tags: produced.tags,
+  };
+}
+
+async function storeResponse(
+  backend: CacheBackend,
+  key: string,
+  produced: CacheableResponse,
+): Promise<CacheEntry> {
+  const entry = await toCacheEntry(produced);
+  if (produced.ttlSeconds !== null) {
+    await backend.put(key, entry);
+  }
+  return entry;
+}
+
+/**
+ * Serve `key` from the configured cache, calling `produce` on a miss. Entries past their
+ * TTL but within the stale window are served at once while `produce` refreshes them in the
+ * background. Responses carry `X-Cache: HIT|STALE|MISS`.
+ */
+export async function cachedResponse(
+  event: H3Event,
+  key: string,
+  produce: () => Promise<CacheableResponse>,
+): Promise<Response> {
+  const backend = getCacheBackend(event);
+  if (!backend) {
+    return (await produce()).response;
+  }
+
+  try {
+    const entry = await backend.get(key);
+    if (entry) {
+      const fresh = Date.now() - entry.storedAt <= entry.ttlSeconds * 1000;
+      if (!fresh) {
+        console.log(`[Cache] STALE for: ${key}`);
+        if (!pendingRefreshes.has(key)) {
+          const refresh = produce()
+            .then((produced) => storeResponse(backend, key, produced))
+            .finally(() => pendingRefreshes.delete(key));
+          pendingRefreshes.set(key, refresh);
+          runInBackground(event, refresh);
+        }
+        return toResponse(entry, "STALE");
+      }
+      console.log(`[Cache] HIT for: ${key}`);
+      return toResponse(entry, "HIT");
+    }
+    console.log(`[Cache] MISS for: ${key}`);
+  } catch (error) {
+    console.error(`[Cache] ${backend.name} lookup failed for ${key}:`, error);
+  }
+
+  const produced = await produce();
+  if (produced.ttlSeconds === null) {
+    return produced.response;
+  }
+
+  // The body is read once and served from those bytes, whether or not storing them works
+  const entry = await toCacheEntry(produced);
+  try {
+    await backend.put(key, entry);
+  } catch (error) {
+    console.error(`[Cache] ${backend.name} store failed for ${key}:`, error);
+  }
+  return toResponse(entry, "MISS");
+}
+
+// Read a JSON value stored with `putCachedJson`; undefined when absent or unreadable
+export async function getCachedJson<T>(key: string): Promise<T | undefined> {
+  const backend = getCacheBackend();
+  if (!backend) return undefined;
+  try {
+    const entry = await backend.get(key);
+    return entry ? (JSON.parse(new TextDecoder().decode(entry.body)) as T) : undefined;
+  } catch (error) {
+    console.error(`[Cache] ${backend.name} JSON lookup failed for ${key}:`, error);
+    return undefined;
+  }
+}
+
+// Store a JSON value, such as an ID mapping, in the same backend as responses
+export async function putCachedJson(
+  key: string,
+  value: unknown,
+  ttlSeconds: number,
+  tags?: CacheTags,
+) {
+  const backend = getCacheBackend();
+  if (!backend) return;
+  try {
+    await backend.put(key, {
+      status: 200,
+      headers: { "content-type": "application/json" },
+      body: new TextEncoder().encode(JSON.stringify(value)),
+      storedAt: Date.now(),
+      ttlSeconds,
+      staleSeconds: 0,
+      tags,
+    });
+  } catch (error) {
+    console.error(`[Cache] ${backend.name} JSON store failed for ${key}:`, error);
+  }
+}
+
+/**
+ * Produce `key` again and store the result, whatever the cache holds. The old entry is kept
+ * when the new response must not be cached, e.g. because a source failed.
+ */
+export async function refreshCachedResponse(
+  event: H3Event,
+  key: string,
+  produce: () => Promise<CacheableResponse>,
+): Promise<{ stored: boolean; status: number; ttlSeconds: number | null }> {
+  const backend = getCacheBackend(event);
+  const produced = await produce();
+  if (backend && produced.ttlSeconds !== null) {
+    await storeResponse(backend, key, produced);
+  }
+  return {
+    stored: Boolean(backend) && produced.ttlSeconds !== null,
+    status: produced.response.status,
+    ttlSeconds: produced.ttlSeconds,
+  };
+}
+
+// Admin API criteria; every one given must match
+export type CacheFilter = {
+  prefix?: string; // e.g. "search:" for searches only
+  title?: string; // case-insensitive substring of the tagged title
+  imdbId?: string;
+  season?: number;
+  episode?: number;
+  source?: string;
+};
+
+export function matchesCacheFilter(listing: CacheListing, filter: CacheFilter): boolean {
+  const tags = listing.tags ?? {};
+  if (filter.prefix && !listing.key.startsWith(filter.prefix)) return false;
+  if (filter.title && !tags.title?.toLowerCase().includes(filter.title.toLowerCase())) {
+    return false;
+  }
+  if (filter.imdbId && tags.imdbId?.toLowerCase() !== filter.imdbId.toLowerCase()) return false;
+  if (filter.season !== undefined && tags.season !== filter.season) return false;
+  if (filter.episode !== undefined && tags.episode !== filter.episode) return false;
+  if (filter.source && !tags.sources?.includes(filter.source.toLowerCase())) return false;
+  return true;
+}
+
+// Delete every entry matching `filter`, returning their keys
+export async function purgeCache(backend: CacheBackend, filter: CacheFilter): Promise<string[]> {
+  const keys = (await backend.list())
+    .filter((listing) => matchesCacheFilter(listing, filter))
+    .map((listing) => listing.key);
+  for (const key of keys) {
+    await backend.delete(key);
+  }
+  console.log(`[Cache] Purged ${keys.length} entr${keys.length === 1 ? "y" : "ies"}.`);
+  return keys;
+}
@@ -0,0 +1,140 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import type { ResponseType } from "~/utils/types";
+import { getDownloadPath } from "~/utils/results";
+import {
+  applyContentTraits,
+  detectMachineTranslatedContent,
+  detectSdhContent,
+  detectSparseCues,
+  recordContentTraits,
+} from "~/utils/contentTraits";
+
+// An SRT body with one cue per line of dialogue, `secondsApart` apart
+function toSrt(lines: string[], secondsApart = 1): string {
+  return lines
+    .map((line, index) => {
+      const total = index * secondsApart;
+      const time = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60]
+        .map((part) => String(part).padStart(2, "0"))
+        .join(":");
+      return `${index + 1}\n${time},000 --> ${time},500\n${line}\n`;
+    })
+    .join("\n");
+}
+
+const DIALOGUE = Array.from({ length: 40 }, (_, index) => `Line number ${index} of the scene.`);
+
+describe("detectSdhContent", () => {
+  it("flags bodies that describe sounds or name speakers", () => {
+    const sdh = [...DIALOGUE];
+    sdh[3] = "[DOOR SLAMS]";
+    sdh[8] = "(SIGHS)";
+    sdh[12] = "JOHN: Where were you?";
+    sdh[20] = "♪ Soft music playing ♪";
+    sdh[31] = "[PHONE RINGING]";
+    expect(detectSdhContent(toSrt(sdh))).toBe(true);
+  });
+
+  it("needs more than a stray marker", () => {
+    const plain = [...DIALOGUE];
+    plain[5] = "[DOOR SLAMS]";
+    expect(detectSdhContent(toSrt(plain))).toBe(false);
+    expect(detectSdhContent("")).toBe(false);
+  });
+
+  it("reads ASS dialogue text", () => {
+    const events = Array.from(
+      { length: 10 },
+      (_, index) =>
+        `Dialogue: 0,0:00:0${index}.00,0:00:0${index}.50,Default,,0,0,0,,{\\i1}[MUSIC]{\\i0} ${index}`,
+    );
+    expect(detectSdhContent(`[Events]\n${events.join("\n")}`)).toBe(true);
+  });
+});
+
+function result(id: string, fields: Partial<ResponseType> = {}): ResponseType {
+  return {
+    id,
+    url: `subdl/${id}/${id}.zip`,
+    flagUrl: "",
+    format: "srt",
+    encoding: "utf-8",
+    display: "English",
+    language: "en",
+    media: "The Matrix",
+    isHearingImpaired: false,
+    source: "subdl",
+    ...fields,
+  };
+}
+
+describe("detectSparseCues", () => {
+  it("flags long bodies with only a few cues", () => {
+    // Ten cues over 45 minutes, as in a forced track
+    expect(detectSparseCues(toSrt(DIALOGUE.slice(0, 10), 300))).toBe(true);
+  });
+
+  it("leaves full dialogue and short bodies alone", () => {
+    // Three cues a minute over twenty minutes
+    expect(detectSparseCues(toSrt([...DIALOGUE, ...DIALOGUE.slice(0, 20)], 20))).toBe(false);
+    // Five cues over ten minutes is too short to judge
+    expect(detectSparseCues(toSrt(DIALOGUE.slice(0, 5), 150))).toBe(false);
+    expect(detectSparseCues("")).toBe(false);
+  });
+});
+
+describe("detectMachineTranslatedContent", () => {
+  it("reads translation credits in the opening or closing cues", () => {
+    expect(detectMachineTranslatedContent(toSrt(["Translated by Google", ...DIALOGUE]))).toBe(true);
+    expect(detectMachineTranslatedContent(toSrt([...DIALOGUE, "Subtitles: AI translated"]))).toBe(
+      true,
+    );
+  });
+
+  it("ignores mentions in the middle of the dialogue", () => {
+    const lines = [...DIALOGUE];
+    lines[20] = "Did you run it through Google Translate?";
+    expect(detectMachineTranslatedContent(toSrt(lines))).toBe(false);
+    expect(detectMachineTranslatedContent(toSrt(DIALOGUE))).toBe(false);
+  });
+});
+
+describe("applyContentTraits", () => {
+  it("turns a full or SDH track with sparse cues into a forced one", async () => {
+    const full = result("sparse-full", { type: "full" });
+    const sdh = result("sparse-sdh", { type: "sdh", isHearingImpaired: true });
+    for (const item of [full, sdh]) {
+      await recordContentTraits(getDownloadPath(item) ?? "", toSrt(DIALOGUE.slice(0, 10), 300));
+    }
+    expect(applyContentTraits([full, sdh]).map((item) => item.type)).toEqual(["forced", "forced"]);
+  });
+
+  it("marks a full track whose body reads as SDH, unless its source flags SDH itself", async () => {
+    const item = result("sdh-body", {
+      type: "full",
+      source: "subf2m",
+      url: "subf2m/sdh-body/sdh-body.zip",
+    });
+    const trusted = result("sdh-trusted", { type: "full" });
+    const lines = DIALOGUE.map((line, index) => (index % 5 === 0 ? "[MUSIC PLAYING]" : line));
+    for (const entry of [item, trusted]) {
+      await recordContentTraits(getDownloadPath(entry) ?? "", toSrt(lines));
+    }
+    const [marked, kept] = applyContentTraits([item, trusted]);
+    expect(marked).toMatchObject({ type: "sdh", isHearingImpaired: true });
+    expect(kept).toMatchObject({ type: "full", isHearingImpaired: false });
+  });
+
+  it("flags a body crediting a machine translation", async () => {
+    const item = result("mt-body");
+    await recordContentTraits(getDownloadPath(item) ?? "", toSrt([...DIALOGUE, "DeepL"]));
+    expect(applyContentTraits([item])[0].machineTranslated).toBe(true);
+  });
+
+  it("leaves results without a downloaded body alone", () => {
+    const item = result("unknown", { type: "full" });
+    expect(applyContentTraits([item])[0]).toBe(item);
+  });
+});
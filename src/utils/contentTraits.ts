@@ -0,0 +1,210 @@
+/** @format */
+
+import type { ResponseType } from "~/utils/types";
+import { getDownloadPath } from "~/utils/results";
+import { getProvider } from "~/sources";
+import { DOWNLOAD_CACHE_TTL_SECONDS, getCachedJson, putCachedJson } from "~/utils/cache";
+import { mentionsMachineTranslation, runWithConcurrency } from "~/utils/utils";
+
+// What the download route learned from a subtitle body, keyed by download path
+export type ContentTraits = {
+  hearingImpaired: boolean;
+  sparseCues: boolean; // too few cues for full dialogue, as in forced tracks
+  machineTranslated: boolean;
+};
+
+// Traits are kept in the cache backend so every instance sees them, with the recent ones in
+// memory. Paths the backend had nothing for are not asked about again for a while.
+const TRAITS_KEY_PREFIX = "traits:";
+const MAX_TRAITS = 5000;
+const MISSING_TRAITS_RECHECK_MS = 10 * 60 * 1000;
+const LOAD_CONCURRENCY = 8;
+const contentTraits = new Map<string, ContentTraits>();
+const missingTraits = new Map<string, number>(); // download path -> when it was looked up
+
+function rememberEntry<T>(map: Map<string, T>, key: string, value: T): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > MAX_TRAITS) {
+    const oldest = map.keys().next().value;
+    if (oldest !== undefined) {
+      map.delete(oldest);
+    }
+  }
+}
+
+// Sound descriptions such as [MUSIC], (SIGHS) or ♪ lyrics
+const SOUND_CUE_PATTERN = /\[[^\]\n]{2,40}\]|\([A-Z][A-Z \-'!,.]{1,40}\)|♪/;
+// Speaker labels at the start of a line, e.g. "JOHN: Hello"
+const SPEAKER_LABEL_PATTERN = /^(?:-\s*)?[A-Z][A-Z0-9 .'-]{1,30}:\s/;
+
+// Share of dialogue lines that must carry SDH markers, and the fewest markers that count
+const SDH_LINE_RATIO = 0.05;
+const MIN_SDH_LINES = 5;
+
+// Full dialogue tracks run around ten cues a minute; forced tracks only a handful in total
+const FORCED_CUES_PER_MINUTE = 2;
+const MIN_FORCED_CHECK_MINUTES = 20;
+// Translation credits sit in the first or last few cues
+const CREDIT_LINES = 5;
+const TIMESTAMP_PATTERN = /\b(\d{1,2}):(\d{2}):(\d{2})[,.]\d+/g;
+
+// Dialogue lines of an SRT, VTT or ASS body, without numbering, timings and styling
+function extractDialogueLines(content: string): string[] {
+  const rawLines = content.split(/\r?\n/).map((line) => line.trim());
+  const isAss = rawLines.some((line) => /^dialogue:/i.test(line));
+  const texts =
+    isAss ?
+      // The text is the tenth comma-separated field of an ASS event
+      rawLines
+        .filter((line) => /^dialogue:/i.test(line))
+        .map((line) => line.split(",").slice(9).join(","))
+    : rawLines.filter(
+        (line) =>
+          line &&
+          !/^\d+$/.test(line) &&
+          !line.includes("-->") &&
+          !/^(webvtt|note|style)\b/i.test(line),
+      );
+
+  return texts
+    .map((text) =>
+      text
+        .replace(/\{[^}]*\}/g, "")
+        .replace(/<[^>]+>/g, "")
+        .replace(/\\N/g, " ")
+        .trim(),
+    )
+    .filter((text) => text.length > 0);
+}
+
+/**
+ * Whether a subtitle body reads as SDH: enough of its lines describe sounds, e.g. `[MUSIC]`
+ * or `(SIGHS)`, or name the speaker.
+ */
+export function detectSdhContent(content: string): boolean {
+  const lines = extractDialogueLines(content);
+  if (lines.length === 0) return false;
+
+  const markedLines = lines.filter(
+    (line) => SOUND_CUE_PATTERN.test(line) || SPEAKER_LABEL_PATTERN.test(line),
+  ).length;
+  return markedLines >= MIN_SDH_LINES && markedLines / lines.length >= SDH_LINE_RATIO;
+}
+
+/**
+ * Whether a body has too few cues for its running time to carry full dialogue. Bodies
+ * shorter than twenty minutes are never judged, since a short episode can be sparse.
+ */
+export function detectSparseCues(content: string): boolean {
+  const lines = content.split(/\r?\n/);
+  const cues = lines.filter((line) => line.includes("-->") || /^dialogue:/i.test(line.trim()));
+  if (cues.length === 0) return false;
+
+  let lastSecond = 0;
+  for (const cue of cues) {
+    for (const [, hours, minutes, seconds] of cue.matchAll(TIMESTAMP_PATTERN)) {
+      const second = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+      lastSecond = Math.max(lastSecond, second);
+    }
+  }
+
+  const minutes = lastSecond / 60;
+  return minutes >= MIN_FORCED_CHECK_MINUTES && cues.length / minutes < FORCED_CUES_PER_MINUTE;
+}
+
+/**
+ * Whether a body credits a machine or AI translation, e.g. "Translated by Google", in its
+ * opening or closing lines, where subtitle credits go.
+ */
+export function detectMachineTranslatedContent(content: string): boolean {
+  const lines = extractDialogueLines(content);
+  const credits =
+    lines.length > CREDIT_LINES * 2 ?
+      [...lines.slice(0, CREDIT_LINES), ...lines.slice(-CREDIT_LINES)]
+    : lines;
+  return credits.some(mentionsMachineTranslation);
+}
+
+/**
+ * Remember what a downloaded subtitle body reveals, so later searches can report it for
+ * sources that do not say themselves. Stored for as long as the download itself.
+ */
+export async function recordContentTraits(downloadPath: string, content: string): Promise<void> {
+  if (!content.trim()) return;
+
+  const traits: ContentTraits = {
+    hearingImpaired: detectSdhContent(content),
+    sparseCues: detectSparseCues(content),
+    machineTranslated: detectMachineTranslatedContent(content),
+  };
+  rememberEntry(contentTraits, downloadPath, traits);
+  missingTraits.delete(downloadPath);
+  await putCachedJson(`${TRAITS_KEY_PREFIX}${downloadPath}`, traits, DOWNLOAD_CACHE_TTL_SECONDS);
+}
+
+/**
+ * Fetch the stored traits of every result not already known in memory, so
+ * `applyContentTraits` sees what any instance learned. Lookup failures count as no traits.
+ */
+export async function loadContentTraits(items: ResponseType[]): Promise<void> {
+  const now = Date.now();
+  const paths = new Set<string>();
+  for (const item of items) {
+    const downloadPath = getDownloadPath(item);
+    if (!downloadPath || contentTraits.has(downloadPath)) continue;
+    const checkedAt = missingTraits.get(downloadPath);
+    if (checkedAt !== undefined && now - checkedAt < MISSING_TRAITS_RECHECK_MS) continue;
+    paths.add(downloadPath);
+  }
+  if (paths.size === 0) return;
+
+  await runWithConcurrency([...paths], LOAD_CONCURRENCY, async (downloadPath) => {
+    const traits = await getCachedJson<ContentTraits>(`${TRAITS_KEY_PREFIX}${downloadPath}`);
+    if (traits) {
+      rememberEntry(contentTraits, downloadPath, traits);
+    } else {
+      rememberEntry(missingTraits, downloadPath, now);
+    }
+  });
+}
+
+export function getContentTraits(item: ResponseType): ContentTraits | undefined {
+  const downloadPath = getDownloadPath(item);
+  return downloadPath ? contentTraits.get(downloadPath) : undefined;
+}
+
+/**
+ * Fill in what is known about each result's body. Sources that flag hearing impaired
+ * subtitles themselves are trusted; the rest are also marked when their body reads as SDH.
+ * A track its names call full or SDH becomes forced when its cues are sparse, and any track
+ * crediting a machine translation is flagged as one.
+ */
+export function applyContentTraits(items: ResponseType[]): ResponseType[] {
+  return items.map((item) => {
+    const traits = getContentTraits(item);
+    if (!traits) return item;
+
+    const source = Array.isArray(item.source) ? item.source[0] : item.source;
+    const isHearingImpaired =
+      item.isHearingImpaired ||
+      (!getProvider(source)?.flagsHearingImpaired && traits.hearingImpaired);
+
+    let type = item.type ?? "full";
+    if ((type === "full" || type === "sdh") && traits.sparseCues) {
+      type = "forced";
+    } else if (type === "full" && isHearingImpaired) {
+      type = "sdh";
+    }
+
+    const machineTranslated = Boolean(item.machineTranslated || traits.machineTranslated);
+
+    return (
+        isHearingImpaired === item.isHearingImpaired &&
+          type === item.type &&
+          machineTranslated === Boolean(item.machineTranslated)
+      ) ?
+        item
+      : { ...item, isHearingImpaired, type, machineTranslated };
+  });
+}
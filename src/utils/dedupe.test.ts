@@ -0,0 +1,72 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import type { ResponseType } from "~/utils/types";
+import { getDownloadPath } from "~/utils/results";
+import { dedupeResults, recordContentFingerprint } from "~/utils/dedupe";
+
+function result(id: string, source: string, fields: Partial<ResponseType> = {}): ResponseType {
+  return {
+    id,
+    url: `${source}/${id}/${id}.zip`,
+    flagUrl: "",
+    format: "srt",
+    encoding: "utf-8",
+    display: "English",
+    language: "en",
+    media: "The Matrix",
+    isHearingImpaired: false,
+    source,
+    ...fields,
+  };
+}
+
+const RELEASE = "The.Matrix.1999.1080p.BluRay.x264-FGT";
+
+describe("dedupeResults", () => {
+  it("merges one release served by several sources", () => {
+    const deduped = dedupeResults([
+      result("a", "subdl", { release: RELEASE }),
+      result("b", "podnapisi", { fileName: "the matrix 1999 1080p bluray x264-fgt.srt" }),
+    ]);
+    expect(deduped).toHaveLength(1);
+    expect(deduped[0].id).toBe("a");
+    expect(deduped[0].alternates?.map((item) => item.id)).toEqual(["b"]);
+  });
+
+  it("keeps uploads from one source apart", () => {
+    const deduped = dedupeResults([
+      result("a", "subdl", { release: RELEASE }),
+      result("b", "subdl", { release: RELEASE }),
+    ]);
+    expect(deduped.map((item) => item.id)).toEqual(["a", "b"]);
+  });
+
+  it("keeps languages, HI tracks and episodes apart", () => {
+    const deduped = dedupeResults([
+      result("a", "subdl", { release: RELEASE }),
+      result("b", "podnapisi", { release: RELEASE, language: "fr" }),
+      result("c", "gestdown", { release: RELEASE, isHearingImpaired: true }),
+      result("d", "subdl", { release: "Show.S01.1080p.WEB", episode: 1 }),
+      result("e", "podnapisi", { release: "Show.S01.1080p.WEB", episode: 2 }),
+    ]);
+    expect(deduped.map((item) => item.id)).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("merges differently named results with the same downloaded body", () => {
+    const first = result("a", "subdl", { release: "Matrix.1080p" });
+    const second = result("b", "podnapisi", { release: "Matrix 1999 Remastered" });
+    const body = "1\n00:00:01,000 --> 00:00:02,000\nWake up, Neo.\n";
+    recordContentFingerprint(getDownloadPath(first) ?? "", body);
+    recordContentFingerprint(getDownloadPath(second) ?? "", `\uFEFF${body.toUpperCase()}  `);
+
+    const deduped = dedupeResults([first, second]);
+    expect(deduped).toHaveLength(1);
+    expect(deduped[0].alternates?.map((item) => item.id)).toEqual(["b"]);
+  });
+
+  it("leaves results without a name alone", () => {
+    const deduped = dedupeResults([result("x", "subdl"), result("y", "podnapisi")]);
+    expect(deduped.map((item) => item.id)).toEqual(["x", "y"]);
+  });
+});
@@ -0,0 +1,117 @@
+/** @format */
+
+import type { ResponseType } from "~/utils/types";
+import { getDownloadPath } from "~/utils/results";
+import { hashString } from "~/utils/utils";
+
+// Fingerprints of subtitle bodies served by the download route, keyed by download path
+const MAX_FINGERPRINTS = 5000;
+const contentFingerprints = new Map<string, string>();
+
+const SUBTITLE_EXTENSION_PATTERN = /\.(srt|ass|ssa|vtt|sub|idx|txt|zip|smi|ttml|dfxp)$/i;
+
+function normalizeName(value: string | null | undefined): string {
+  if (!value) return "";
+  return value
+    .trim()
+    .replace(SUBTITLE_EXTENSION_PATTERN, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ".")
+    .replace(/^\.+|\.+$/g, "");
+}
+
+/**
+ * Remember the fingerprint of a downloaded subtitle body so later searches can collapse
+ * results that point at the same file. Whitespace and case are ignored.
+ */
+export function recordContentFingerprint(downloadPath: string, content: string): void {
+  const normalized = content
+    .replace(/^\uFEFF/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+  if (!normalized) return;
+
+  contentFingerprints.delete(downloadPath);
+  contentFingerprints.set(downloadPath, hashString(normalized));
+  if (contentFingerprints.size > MAX_FINGERPRINTS) {
+    const oldest = contentFingerprints.keys().next().value;
+    if (oldest !== undefined) {
+      contentFingerprints.delete(oldest);
+    }
+  }
+}
+
+function getContentFingerprint(item: ResponseType): string | undefined {
+  const downloadPath = getDownloadPath(item);
+  return downloadPath ? contentFingerprints.get(downloadPath) : undefined;
+}
+
+// File names are preferred since they usually carry the full release name
+function getGroupKey(item: ResponseType): string | null {
+  const identity = normalizeName(item.fileName) || normalizeName(item.release);
+  if (!identity) return null;
+  // Whole-season results must never merge across episodes
+  return `${item.language}|${item.isHearingImpaired ? "hi" : ""}|${item.episode ?? ""}|${identity}`;
+}
+
+function getSourceName(item: ResponseType): string {
+  return Array.isArray(item.source) ? item.source.join(",") : (item.source ?? "");
+}
+
+type DedupeGroup = {
+  members: ResponseType[];
+  sources: Set<string>;
+};
+
+function addToGroup(group: DedupeGroup, item: ResponseType): boolean {
+  const source = getSourceName(item);
+  if (group.sources.has(source)) {
+    // Two uploads from one source are distinct subtitles, not mirrors
+    return false;
+  }
+  group.members.push(item);
+  group.sources.add(source);
+  return true;
+}
+
+/**
+ * Collapse results that are the same subtitle served by different sources. Results are grouped
+ * by language, HI flag and normalized file/release name, then by known content fingerprint.
+ * Each group keeps its first member, in input order, with the others listed as `alternates`.
+ */
+export function dedupeResults(items: ResponseType[]): ResponseType[] {
+  const groups: DedupeGroup[] = [];
+  const groupsByKey = new Map<string, DedupeGroup>();
+  const groupsByFingerprint = new Map<string, DedupeGroup>();
+
+  for (const item of items) {
+    const key = getGroupKey(item);
+    const fingerprint = getContentFingerprint(item);
+
+    const candidate =
+      (key ? groupsByKey.get(key) : undefined) ??
+      (fingerprint ? groupsByFingerprint.get(fingerprint) : undefined);
+    if (candidate && addToGroup(candidate, item)) {
+      if (key && !groupsByKey.has(key)) groupsByKey.set(key, candidate);
+      if (fingerprint && !groupsByFingerprint.has(fingerprint)) {
+        groupsByFingerprint.set(fingerprint, candidate);
+      }
+      continue;
+    }
+
+    const group: DedupeGroup = { members: [], sources: new Set() };
+    addToGroup(group, item);
+    groups.push(group);
+    if (key && !groupsByKey.has(key)) groupsByKey.set(key, group);
+    if (fingerprint && !groupsByFingerprint.has(fingerprint)) {
+      groupsByFingerprint.set(fingerprint, group);
+    }
+  }
+
+  return groups.map(({ members: [primary, ...rest] }) =>
+    rest.length > 0 ?
+      { ...primary, alternates: [...(primary.alternates ?? []), ...rest] }
+    : primary,
+  );
+}
@@ -1,23 +1,238 @@
 /** @format */
 
-import { searchOpensubtitles, processOpenSubtitlesResults } from "~/sources/opensubs";
-import type { RequestType, ResponseType } from "~/utils/types";
-import { convertTmdbToImdb } from "~/utils/utils";
-import { searchPodnapisi } from "~/sources/podnapisi";
-import { searchSubf2m } from "~/sources/subf2m";
-import { searchAnimetosho } from "~/sources/animetosho";
-import { searchGestdown } from "~/sources/gestdown";
-import { searchSubdl } from "~/sources/subdl";
-import { sourcesConfig } from "~/sourcesConfig";
-
-export async function search(request: RequestType): Promise<ResponseType[]> {
+import type {
+  MediaKind,
+  RequestType,
+  ResponseType,
+  SearchOptions,
+  SearchReport,
+  SourceReport,
+  SubtitleProvider,
+} from "~/utils/types";
+import { isSeasonRequest, readPositiveIntEnv, withTimeout, TimeoutError } from "~/utils/utils";
+import { getImdbIdForTmdb } from "~/utils/idMapping";
+import { loadContentTraits } from "~/utils/contentTraits";
+import { getEnabledProviders, getProvider, isProviderEnabled, supportsMedia } from "~/sources";
+
+// Overall budget for a search; no source may run longer than this.
+const SEARCH_DEADLINE_MS = readPositiveIntEnv("SEARCH_DEADLINE_MS", 15_000);
+const DEFAULT_SOURCE_TIMEOUT_MS = readPositiveIntEnv("SEARCH_SOURCE_TIMEOUT_MS", 10_000);
+
+// SEARCH_TIMEOUT_{NAME}_MS, then the provider's own budget, then SEARCH_SOURCE_TIMEOUT_MS
+function getProviderTimeout(provider: SubtitleProvider): number {
+  const budget = readPositiveIntEnv(
+    `SEARCH_TIMEOUT_${provider.name.toUpperCase()}_MS`,
+    provider.timeoutMs ?? DEFAULT_SOURCE_TIMEOUT_MS,
+  );
+  return Math.min(budget, SEARCH_DEADLINE_MS);
+}
+
+/**
+ * Start every provider at once and collect whatever finishes within its budget. Results keep
+ * the order of `providers` so responses stay stable regardless of which source answered first.
+ */
+async function runProviders(
+  providers: SubtitleProvider[],
+  request: RequestType,
+  options: SearchOptions,
+): Promise<Pick<SearchReport, "results" | "sources">> {
+  const startedAt = Date.now();
+
+  const settled = await Promise.all(
+    providers.map(async (provider) => {
+      const timeoutMs = getProviderTimeout(provider);
+      let results: ResponseType[] = [];
+      let report: SourceReport;
+      try {
+        results = await withTimeout(
+          provider.search(request),
+          timeoutMs,
+          `[Search] ${provider.name}`,
+        );
+        report = {
+          name: provider.name,
+          status: "ok",
+          count: results.length,
+          durationMs: Date.now() - startedAt,
+        };
+        console.log(
+          `[Search] ${provider.name} returned ${results.length} result(s) in ${report.durationMs}ms.`,
+        );
+      } catch (error) {
+        const timedOut = error instanceof TimeoutError;
+        if (timedOut) {
+          console.warn(`[Search] ${provider.name} exceeded its ${timeoutMs}ms budget. Skipping.`);
+        } else {
+          console.error(`[Search] ${provider.name} failed:`, error);
+        }
+        report = {
+          name: provider.name,
+          status: timedOut ? "timeout" : "error",
+          count: 0,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      // Before anyone sees the batch, so filters and ranking know what earlier downloads found
+      await loadContentTraits(results);
+      try {
+        options.onSourceComplete?.(report, results);
+      } catch (callbackError) {
+        console.error(`[Search] onSourceComplete failed for ${provider.name}:`, callbackError);
+      }
+      return { results, report };
+    }),
+  );
+
+  return {
+    results: settled.flatMap((entry) => entry.results),
+    sources: settled.map((entry) => entry.report),
+  };
+}
+
+function selectProviders(sources: string[], mediaKind: MediaKind): SubtitleProvider[] {
+  if (sources.includes("all")) {
+    console.log("[Search] Using all available enabled sources.");
+    return getEnabledProviders().filter((provider) => {
+      if (supportsMedia(provider, mediaKind)) return true;
+      console.log(
+        `[Search] Skipping ${provider.displayName} in all-sources mode: no ${mediaKind}.`,
+      );
+      return false;
+    });
+  }
+
+  if (sources.length === 0) {
+    console.log("[Search] No specific source requested, using enabled defaults.");
+    return getEnabledProviders().filter(
+      (provider) => provider.defaultFor[mediaKind] && supportsMedia(provider, mediaKind),
+    );
+  }
+
+  const selected: SubtitleProvider[] = [];
+  for (const source of sources) {
+    const provider = getProvider(source);
+    if (!provider || !isProviderEnabled(provider)) {
+      console.warn(`[Search] Source disabled or unknown: ${source}`);
+      continue;
+    }
+    if (!supportsMedia(provider, mediaKind)) {
+      console.warn(`[Search] ${provider.displayName} does not support ${mediaKind}. Skipping.`);
+      continue;
+    }
+    if (!selected.includes(provider)) {
+      selected.push(provider);
+    }
+  }
+  return selected;
+}
+
+type SourceCompleteListener = NonNullable<SearchOptions["onSourceComplete"]>;
+
+// A search shared by every identical request that arrives while it runs
+type SearchFlight = {
+  report: Promise<SearchReport>;
+  settled: { report: SourceReport; results: ResponseType[] }[]; // sources finished so far
+  listeners: Set<SourceCompleteListener>;
+};
+
+const searchFlights = new Map<string, SearchFlight>();
+
+function normalizeList(value: string | string[] | undefined): string[] {
+  const entries = Array.isArray(value) ? value : (value ?? "").split(",");
+  return [...new Set(entries.map((entry) => entry.trim().toLowerCase()).filter(Boolean))].sort();
+}
+
+/**
+ * Key identical searches share: everything providers read from the request, with lists
+ * sorted and lower-cased. Release and file filters are applied after the search, so they
+ * are left out.
+ */
+function getSearchKey(request: RequestType): string {
+  return JSON.stringify([
+    request.imdbId?.toLowerCase() ?? null,
+    request.tmdbId ?? null,
+    request.movieHash ? `${request.movieHash.hash}:${request.movieHash.byteSize}` : null,
+    request.season ?? null,
+    request.episode ?? null,
+    normalizeList(request.languages),
+    normalizeList(request.formats),
+    normalizeList(request.encodings),
+    normalizeList(request.source),
+  ]);
+}
+
+/**
+ * Run a search and report how each provider fared. Provider failures never throw; they are
+ * recorded in `sources` so callers can tell "nothing found" apart from "source broken".
+ * Identical concurrent searches share one run: later callers join the one in flight, and
+ * their `onSourceComplete` first hears about the sources that already finished.
+ */
+export async function searchWithReport(
+  request: RequestType,
+  options: SearchOptions = {},
+): Promise<SearchReport> {
+  const key = getSearchKey(request);
+  let flight = searchFlights.get(key);
+  if (flight) {
+    console.log(`[Search] Joining in-flight search for ${key}`);
+  } else {
+    flight = startSearchFlight(key, request);
+  }
+
+  const listener = options.onSourceComplete;
+  if (listener) {
+    for (const { report, results } of flight.settled) {
+      notifySourceComplete(listener, report, results);
+    }
+    flight.listeners.add(listener);
+  }
+  try {
+    return await flight.report;
+  } finally {
+    if (listener) flight.listeners.delete(listener);
+  }
+}
+
+function notifySourceComplete(
+  listener: SourceCompleteListener,
+  report: SourceReport,
+  results: ResponseType[],
+): void {
+  try {
+    listener(report, results);
+  } catch (callbackError) {
+    console.error(`[Search] onSourceComplete failed for ${report.name}:`, callbackError);
+  }
+}
+
+function startSearchFlight(key: string, request: RequestType): SearchFlight {
+  const flight: SearchFlight = { report: null, settled: [], listeners: new Set() };
+  flight.report = runSearch(request, {
+    onSourceComplete(report, results) {
+      flight.settled.push({ report, results });
+      for (const listener of flight.listeners) {
+        notifySourceComplete(listener, report, results);
+      }
+    },
+  }).finally(() => searchFlights.delete(key));
+  searchFlights.set(key, flight);
+  return flight;
+}
+
+async function runSearch(request: RequestType, options: SearchOptions): Promise<SearchReport> {
   try {
     if (!request.imdbId) {
       if (request.tmdbId) {
-        const mediaType = request.season !== undefined ? "tv" : "movie";
-        request.imdbId = await convertTmdbToImdb(`${request.tmdbId}`, mediaType);
-      } else {
-        throw new Error("imdbId or tmdbId is required");
+        const mediaType = request.season != null ? "tv" : "movie";
+        const converted = await getImdbIdForTmdb(request.tmdbId, mediaType);
+        if (!converted) {
+          throw new Error(`Could not resolve TMDB id ${request.tmdbId} to an IMDb id`);
+        }
+        request.imdbId = converted;
+      } else if (!request.movieHash) {
+        throw new Error("imdbId, tmdbId or movieHash is required");
       }
     }
 
@@ -34,89 +249,33 @@ export async function search(request: RequestType): Promise<ResponseType[]> {
         safeRequest.source.split(",").map(normalizeSource).filter(Boolean)
       : [];
 
-    const results: ResponseType[] = [];
-
-    if (sources.includes("all")) {
-      console.log("[Search] Using all available enabled sources.");
-      if (sourcesConfig.subdl) {
-        results.push(...(await searchSubdl(safeRequest)));
-      }
-      if (sourcesConfig.subf2m) {
-        results.push(...(await searchSubf2m(safeRequest)));
-      }
-      if (sourcesConfig.podnapisi) {
-        results.push(...(await searchPodnapisi(safeRequest)));
-      }
-      if (sourcesConfig.animetosho) {
-        console.log("[Search] Using Animetosho source (all sources mode).");
-        results.push(...(await searchAnimetosho(safeRequest)));
-      }
-      if (sourcesConfig.gestdown) {
-        if (safeRequest.season !== undefined && safeRequest.episode !== undefined) {
-          console.log("[Search] Using Gestdown source (all sources mode).");
-          results.push(...(await searchGestdown(safeRequest)));
-        } else {
-          console.log("[Search] Skipping Gestdown in all-sources mode: missing season/episode.");
-        }
-      }
-      if (sourcesConfig.opensubtitles) {
-        const osData = await searchOpensubtitles(safeRequest);
-        results.push(...(await processOpenSubtitlesResults(osData, safeRequest)));
-      }
-      return results;
-    }
-
-    for (const source of sources) {
-      if (source === "subdl" && sourcesConfig.subdl) {
-        results.push(...(await searchSubdl(safeRequest)));
-      } else if (source === "subf2m" && sourcesConfig.subf2m) {
-        console.log("[Search] Using Subf2m source.");
-        results.push(...(await searchSubf2m(safeRequest)));
-      } else if (source === "opensubtitles" && sourcesConfig.opensubtitles) {
-        console.log("[Search] Using OpenSubtitles source.");
-        const data = await searchOpensubtitles(safeRequest);
-        results.push(...(await processOpenSubtitlesResults(data, safeRequest)));
-      } else if (source === "podnapisi" && sourcesConfig.podnapisi) {
-        console.log("[Search] Using Podnapisi source.");
-        results.push(...(await searchPodnapisi(safeRequest)));
-      } else if (source === "animetosho" && sourcesConfig.animetosho) {
-        console.log("[Search] Using Animetosho source.");
-        results.push(...(await searchAnimetosho(safeRequest)));
-      } else if (source === "gestdown" && sourcesConfig.gestdown) {
-        if (safeRequest.season !== undefined && safeRequest.episode !== undefined) {
-          console.log("[Search] Using Gestdown source.");
-          results.push(...(await searchGestdown(safeRequest)));
-        } else {
-          console.warn(
-            "[Search] Gestdown source requires both season and episode. Skipping this source.",
-          );
-        }
-      } else if (source !== "all" && !sourcesConfig[source as keyof typeof sourcesConfig]) {
-        console.warn(`[Search] Source disabled or unknown: ${source}`);
-      }
+    const mediaKind: MediaKind = safeRequest.season != null ? "tv" : "movie";
+    let providers = selectProviders(sources, mediaKind);
+    if (!safeRequest.imdbId) {
+      // Without an id only sources that can look a file hash up have anything to search by
+      providers = providers.filter((provider) => provider.capabilities.hash);
     }
-
-    if (results.length === 0 && sources.length === 0) {
-      console.log("[Search] No specific source requested, using enabled defaults.");
-      if (sourcesConfig.opensubtitles) {
-        const data = await searchOpensubtitles(safeRequest);
-        results.push(...(await processOpenSubtitlesResults(data, safeRequest)));
-      }
-      if (safeRequest.season !== undefined && safeRequest.episode !== undefined) {
-        if (sourcesConfig.animetosho) {
-          console.log("[Search] Adding Animetosho results by default for episodic request.");
-          results.push(...(await searchAnimetosho(safeRequest)));
-        }
-        if (sourcesConfig.gestdown) {
-          console.log("[Search] Adding Gestdown results by default for episodic request.");
-          results.push(...(await searchGestdown(safeRequest)));
-        }
-      }
+    if (isSeasonRequest(safeRequest)) {
+      // Whole-season searches only go to sources that can list a season in one pass
+      providers = providers.filter((provider) => {
+        if (provider.capabilities.season) return true;
+        console.log(`[Search] Skipping ${provider.displayName}: no whole-season search.`);
+        return false;
+      });
     }
 
-    return results;
+    const outcome = await runProviders(providers, safeRequest, options);
+    return { ...outcome, resolvedImdbId: safeRequest.imdbId ?? null };
   } catch (e) {
     console.error(`[Search] Unexpected error in search function:`, e);
-    return [];
+    return { results: [], sources: [], resolvedImdbId: request.imdbId ?? null };
   }
 }
+
+export async function search(
+  request: RequestType,
+  options: SearchOptions = {},
+): Promise<ResponseType[]> {
+  const { results } = await searchWithReport(request, options);
+  return results;
+}
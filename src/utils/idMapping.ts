@@ -0,0 +1,338 @@
+/** @format */
+
+import { cacheConfig } from "~/cacheConfig";
+import { getCachedJson, putCachedJson } from "~/utils/cache";
+import { pickTmdbApiKey, readPositiveIntEnv, runWithConcurrency } from "~/utils/utils";
+
+export type MediaType = "movie" | "tv";
+
+// Every id we know a movie or show by, resolved through TMDB
+export type TitleIds = {
+  imdbId: string | null;
+  tmdbId: number;
+  tvdbId: number | null; // shows only
+  mediaType: MediaType;
+  title: string | null; // movie title or show name
+  releaseDate: string | null; // release or first air date, `YYYY-MM-DD`
+};
+
+// Where a TVDB episode sits in AniDB's numbering, read from the Anime-Lists mappings
+export type AniDbEpisodeMapping = {
+  seriesId: number;
+  episodeNumber: number;
+  offset: number;
+};
+
+export type IdReference = { imdbId: string } | { tmdbId: string | number; mediaType: MediaType };
+
+const MAX_MEMORY_IDS = 5000;
+const PRELOAD_CONCURRENCY = 4;
+
+// Ids recently used by this instance, in front of the persistent store
+const memoryIds = new Map<string, unknown>();
+// Lookups in progress, so concurrent requests for one id share a TMDB call
+const pendingLookups = new Map<string, Promise<unknown>>();
+
+// TMDB could not be reached, as opposed to not knowing the id
+export class IdLookupError extends Error {
+  constructor(key: string, cause: unknown) {
+    super(`Could not look up ${key}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "IdLookupError";
+  }
+}
+
+function rememberId(key: string, value: unknown): void {
+  memoryIds.delete(key);
+  memoryIds.set(key, value);
+  if (memoryIds.size > MAX_MEMORY_IDS) {
+    const oldest = memoryIds.keys().next().value;
+    if (oldest !== undefined) memoryIds.delete(oldest);
+  }
+}
+
+function imdbKey(imdbId: string): string {
+  return `ids:imdb:${imdbId.toLowerCase()}`;
+}
+
+function tmdbKey(tmdbId: string | number, mediaType: MediaType): string {
+  return `ids:tmdb:${mediaType}:${tmdbId}`;
+}
+
+function airDateKey(tmdbId: number, season: number, episode?: number | null): string {
+  return `ids:airdate:${tmdbId}:${season}${episode ? `:${episode}` : ""}`;
+}
+
+// Mappings live for a month; ids TMDB does not know yet are retried after a day
+function getStoreTtl(found: boolean): number {
+  return found ?
+      readPositiveIntEnv("CACHE_ID_TTL_SECONDS", cacheConfig.idMappingTtlSeconds)
+    : readPositiveIntEnv("CACHE_MISSING_ID_TTL_SECONDS", cacheConfig.missingIdTtlSeconds);
+}
+
+async function storeIds(key: string, ids: TitleIds | null): Promise<void> {
+  rememberId(key, ids);
+  await putCachedJson(key, { value: ids }, getStoreTtl(Boolean(ids)), {
+    imdbId: ids?.imdbId,
+    title: ids?.title,
+  });
+}
+
+/**
+ * Drop ids kept in this instance's memory, e.g. after they were purged from the store. Without
+ * `keys` everything goes.
+ */
+export function forgetIds(keys?: string[]): void {
+  if (!keys) {
+    memoryIds.clear();
+    return;
+  }
+  for (const key of keys) {
+    memoryIds.delete(key);
+  }
+}
+
+/**
+ * Look `key` up in memory, then the persistent store, then through `resolve`. A null from
+ * `resolve` means the id does not exist and is stored too; a thrown error is a transient
+ * failure, which is logged and rethrown as an IdLookupError without storing anything.
+ */
+async function lookupId<T>(
+  key: string,
+  resolve: () => Promise<T | null>,
+  onResolved?: (value: T | null) => Promise<void>,
+): Promise<T | null> {
+  if (memoryIds.has(key)) {
+    return memoryIds.get(key) as T | null;
+  }
+
+  let pending = pendingLookups.get(key) as Promise<T | null> | undefined;
+  if (!pending) {
+    pending = (async () => {
+      const stored = await getCachedJson<{ value: T | null }>(key);
+      if (stored) {
+        rememberId(key, stored.value);
+        return stored.value;
+      }
+
+      try {
+        const value = await resolve();
+        if (onResolved) {
+          await onResolved(value);
+        } else {
+          rememberId(key, value);
+          await putCachedJson(key, { value }, getStoreTtl(value !== null));
+        }
+        return value;
+      } catch (error) {
+        console.error(`[IDs] Lookup failed for ${key}:`, error);
+        throw new IdLookupError(key, error);
+      }
+    })().finally(() => pendingLookups.delete(key));
+    pendingLookups.set(key, pending);
+  }
+  return pending;
+}
+
+// For callers that treat an unreachable TMDB like an unknown id
+function nullOnFailure<T>(lookup: Promise<T | null>): Promise<T | null> {
+  return lookup.catch((error) => {
+    if (error instanceof IdLookupError) return null;
+    throw error;
+  });
+}
+
+async function fetchTmdbJson(path: string): Promise<any | null> {
+  const separator = path.includes("?") ? "&" : "?";
+  const response = await fetch(
+    `https://api.themoviedb.org/3/${path}${separator}api_key=${pickTmdbApiKey()}`,
+  );
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`TMDB responded with status ${response.status} for /${path}`);
+  }
+  return response.json();
+}
+
+function parseTvdbId(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : Number.parseInt(String(value ?? ""), 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+async function resolveFromTmdb(
+  tmdbId: string | number,
+  mediaType: MediaType,
+): Promise<TitleIds | null> {
+  const details = await fetchTmdbJson(`${mediaType}/${tmdbId}?append_to_response=external_ids`);
+  if (!details) {
+    return null;
+  }
+  return {
+    imdbId: details.external_ids?.imdb_id || details.imdb_id || null,
+    tmdbId: Number(details.id ?? tmdbId),
+    tvdbId: mediaType === "tv" ? parseTvdbId(details.external_ids?.tvdb_id) : null,
+    mediaType,
+    title: (mediaType === "movie" ? details.title : details.name) || null,
+    releaseDate: (mediaType === "movie" ? details.release_date : details.first_air_date) || null,
+  };
+}
+
+async function resolveFromImdb(imdbId: string): Promise<TitleIds | null> {
+  const found = await fetchTmdbJson(`find/${imdbId}?external_source=imdb_id`);
+  const movie = found?.movie_results?.[0];
+  if (movie) {
+    return {
+      imdbId,
+      tmdbId: movie.id,
+      tvdbId: null,
+      mediaType: "movie",
+      title: movie.title || null,
+      releaseDate: movie.release_date || null,
+    };
+  }
+
+  const show = found?.tv_results?.[0];
+  if (!show) {
+    return null;
+  }
+  // /find leaves out the TVDB id, which the show's own record carries
+  const ids = await resolveFromTmdb(show.id, "tv");
+  return ids ? { ...ids, imdbId } : null;
+}
+
+/**
+ * Every id of the movie or show with this IMDb id. Null when TMDB does not know it, or
+ * cannot be reached.
+ */
+export function getIdsForImdb(imdbId: string): Promise<TitleIds | null> {
+  return nullOnFailure(
+    lookupId(
+      imdbKey(imdbId),
+      () => resolveFromImdb(imdbId.toLowerCase()),
+      async (ids) => {
+        await storeIds(imdbKey(imdbId), ids);
+        // The reverse direction comes for free
+        if (ids) await storeIds(tmdbKey(ids.tmdbId, ids.mediaType), ids);
+      },
+    ),
+  );
+}
+
+// Throws an IdLookupError when TMDB cannot be reached
+function lookupTmdbIds(tmdbId: string | number, mediaType: MediaType): Promise<TitleIds | null> {
+  return lookupId(
+    tmdbKey(tmdbId, mediaType),
+    () => resolveFromTmdb(tmdbId, mediaType),
+    async (ids) => {
+      await storeIds(tmdbKey(tmdbId, mediaType), ids);
+      if (ids?.imdbId) await storeIds(imdbKey(ids.imdbId), ids);
+    },
+  );
+}
+
+// Every id of the TMDB movie or show. Null when TMDB does not know it, or cannot be reached.
+export function getIdsForTmdb(
+  tmdbId: string | number,
+  mediaType: MediaType,
+): Promise<TitleIds | null> {
+  return nullOnFailure(lookupTmdbIds(tmdbId, mediaType));
+}
+
+// The movie title or show name TMDB lists for this IMDb id
+export async function getTitleForImdb(imdbId: string): Promise<string | null> {
+  return (await getIdsForImdb(imdbId))?.title ?? null;
+}
+
+/**
+ * The IMDb id of the TMDB movie or show; null when TMDB does not know it. Throws an
+ * IdLookupError when TMDB cannot be reached, so callers can tell a bad id from an outage.
+ */
+export async function getImdbIdForTmdb(
+  tmdbId: string | number,
+  mediaType: MediaType,
+): Promise<string | null> {
+  return (await lookupTmdbIds(tmdbId, mediaType))?.imdbId ?? null;
+}
+
+/**
+ * Where a TVDB episode sits in AniDB. `resolve` reads the mapping on a miss; the answer,
+ * including "no mapping", is kept like any other id.
+ */
+export function getAniDbEpisodeMapping(
+  tvdbId: number,
+  season: number,
+  episode: number,
+  resolve: () => Promise<AniDbEpisodeMapping | null>,
+): Promise<AniDbEpisodeMapping | null> {
+  return nullOnFailure(lookupId(`ids:anidb:${tvdbId}:${season}:${episode}`, resolve));
+}
+
+/**
+ * Resolve many titles at once, e.g. every id in a batch search, so the searches that follow
+ * find them in memory. Failures are logged by the lookups and otherwise ignored.
+ */
+export async function preloadIds(references: IdReference[]): Promise<void> {
+  const unique = new Map<string, IdReference>();
+  for (const reference of references) {
+    const key =
+      "imdbId" in reference ?
+        imdbKey(reference.imdbId)
+      : tmdbKey(reference.tmdbId, reference.mediaType);
+    if (!memoryIds.has(key)) unique.set(key, reference);
+  }
+  if (unique.size === 0) return;
+
+  console.log(`[IDs] Preloading ${unique.size} title(s).`);
+  await runWithConcurrency([...unique.values()], PRELOAD_CONCURRENCY, (reference) =>
+    "imdbId" in reference ?
+      getIdsForImdb(reference.imdbId)
+    : getIdsForTmdb(reference.tmdbId, reference.mediaType),
+  );
+}
+
+export type TmdbReleaseInfo = {
+  title: string | null; // movie title or show name
+  releaseDate: string | null; // TMDB `YYYY-MM-DD` date
+};
+
+/**
+ * Name a searched title and when it came out: the episode's or season's air date when one
+ * is named, otherwise the movie's release or show's first air date. Fields are null when
+ * TMDB does not know the title or has no date for it.
+ */
+export async function getTmdbReleaseInfo(
+  imdbId: string,
+  season?: number | null,
+  episode?: number | null,
+): Promise<TmdbReleaseInfo> {
+  const ids = await getIdsForImdb(imdbId);
+  if (!ids) {
+    return { title: null, releaseDate: null };
+  }
+  if (ids.mediaType === "movie" || !season) {
+    return { title: ids.title, releaseDate: ids.releaseDate };
+  }
+
+  // Stored next to the mappings; dates TMDB has not settled yet are looked up again after a day
+  const key = airDateKey(ids.tmdbId, season, episode);
+  const airDate = await nullOnFailure(
+    lookupId(
+      key,
+      async () => {
+        const path = `tv/${ids.tmdbId}/season/${season}${episode ? `/episode/${episode}` : ""}`;
+        const details = await fetchTmdbJson(path);
+        // Episodes TMDB has not listed yet are usually about to air
+        return {
+          releaseDate: details ? details.air_date || null : new Date().toISOString().slice(0, 10),
+          settled: Boolean(details?.air_date),
+        };
+      },
+      async (value) => {
+        rememberId(key, value);
+        await putCachedJson(key, { value }, getStoreTtl(Boolean(value?.settled)));
+      },
+    ),
+  );
+  return { title: ids.title, releaseDate: airDate?.releaseDate ?? null };
+}
@@ -48,11 +48,12 @@ export function parseSubtitles(jsonString: string): Subtitle[] {
     return parsed.filter((item): item is Subtitle => isValidSubtitle(item));
   }
 
-  const fragments = jsonString.split('{"MatchedBy":"imdbid"');
+  // Each entry starts with its MatchedBy field ("imdbid", "moviehash", ...)
+  const fragments = jsonString.split('{"MatchedBy":"');
   const results: Subtitle[] = [];
 
   for (let i = 1; i < fragments.length; i++) {
-    const fragment = '{"MatchedBy":"imdbid"' + fragments[i];
+    const fragment = '{"MatchedBy":"' + fragments[i];
     const regex = /,"Score":[^}]+}/;
     const match = fragment.match(regex);
 
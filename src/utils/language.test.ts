@@ -0,0 +1,34 @@
+/** @format */
+
+import ISO6391 from "iso-639-1";
+import { describe, expect, it } from "vitest";
+import { canonicalizeLanguageTag, getIso6393Code } from "~/utils/language";
+
+describe("canonicalizeLanguageTag", () => {
+  it("keeps every ISO 639-1 code", () => {
+    for (const code of ISO6391.getAllCodes()) {
+      expect(canonicalizeLanguageTag(code), code).toBe(code);
+      expect(canonicalizeLanguageTag(code.toUpperCase()), code).toBe(code);
+    }
+  });
+
+  it("maps 639-2 and 639-3 codes to the 639-1 code", () => {
+    expect(canonicalizeLanguageTag("eng")).toBe("en");
+    expect(canonicalizeLanguageTag("por")).toBe("pt");
+    expect(canonicalizeLanguageTag("ger")).toBe("de");
+    expect(canonicalizeLanguageTag("fil")).toBe("fil");
+    expect(getIso6393Code("en")).toBe("eng");
+  });
+
+  it("canonicalizes regions and scripts", () => {
+    expect(canonicalizeLanguageTag("pt-br")).toBe("pt-BR");
+    expect(canonicalizeLanguageTag("zh_hans")).toBe("zh-Hans");
+  });
+
+  it("reads language names that are not codes", () => {
+    expect(canonicalizeLanguageTag("Portuguese")).toBe("pt");
+    expect(canonicalizeLanguageTag("Português")).toBe("pt");
+    expect(canonicalizeLanguageTag("farsi")).toBe("fa");
+    expect(canonicalizeLanguageTag("klingonese")).toBeNull();
+  });
+});
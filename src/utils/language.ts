@@ -0,0 +1,188 @@
+/** @format */
+
+import ISO6391 from "iso-639-1";
+import { iso6393 } from "iso-639-3";
+import { languageToCountryCode } from "~/utils/lookup";
+
+// Codes some sources use for regional variants, and everyday names the ISO tables spell
+// differently, mapped to the tag they stand for
+const LANGUAGE_ALIASES: Record<string, string> = {
+  pb: "pt-BR",
+  zt: "zh-Hant",
+  "brazilian portuguese": "pt-BR",
+  "latin american spanish": "es-419",
+  cantonese: "yue",
+  farsi: "fa",
+};
+
+type LanguageCodes = {
+  code: string; // 639-1 when the language has one, 639-3 otherwise
+  iso6393: string;
+};
+
+// Every 639-1, 639-2/T, 639-2/B and 639-3 code, keyed in lower case
+const LANGUAGE_CODES: Map<string, LanguageCodes> = (() => {
+  const lookup = new Map<string, LanguageCodes>();
+  for (const entry of iso6393) {
+    const codes: LanguageCodes = {
+      code: entry.iso6391 ?? entry.iso6393,
+      iso6393: entry.iso6393,
+    };
+    for (const key of [entry.iso6391, entry.iso6392T, entry.iso6392B, entry.iso6393]) {
+      if (key && !lookup.has(key.toLowerCase())) lookup.set(key.toLowerCase(), codes);
+    }
+  }
+  return lookup;
+})();
+
+// English and native names, lower-cased; the common 639-1 names win over 639-3 reference names
+const LANGUAGE_NAMES: Map<string, LanguageCodes> = (() => {
+  const lookup = new Map<string, LanguageCodes>();
+  const add = (name: string | undefined, code: string) => {
+    const codes = LANGUAGE_CODES.get(code);
+    const key = name?.trim().toLowerCase();
+    if (codes && key && !lookup.has(key)) lookup.set(key, codes);
+  };
+
+  for (const code of ISO6391.getAllCodes()) {
+    add(ISO6391.getName(code), code);
+    add(ISO6391.getNativeName(code), code);
+  }
+  for (const entry of iso6393) {
+    add(entry.name, entry.iso6393);
+  }
+  return lookup;
+})();
+
+/**
+ * Canonicalize a language to a BCP-47 tag: `pt-br` becomes `pt-BR`, `zh-hans` `zh-Hans`, and
+ * 639-2 or 639-3 codes and language names become the 639-1 code when there is one, so `por`,
+ * `Portuguese` and `Português` are all `pt`. Languages without one keep their 639-3 code, such
+ * as `fil`. Returns null for anything that names no known language.
+ */
+export function canonicalizeLanguageTag(value: string | null | undefined): string | null {
+  const trimmed = value?.trim().replace(/_/g, "-");
+  if (!trimmed) return null;
+
+  const lower = trimmed.toLowerCase();
+  const alias = LANGUAGE_ALIASES[lower];
+  if (alias) return alias;
+
+  // Codes first: names include 639-3 reference names such as "En", which would turn `en` into `enc`
+  if (/^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i.test(trimmed)) {
+    const [language, ...subtags] = lower.split("-");
+    const codes = LANGUAGE_CODES.get(language);
+    if (codes) {
+      try {
+        const canonical = Intl.getCanonicalLocales([codes.code, ...subtags].join("-"))[0];
+        // Intl also swaps languages CLDR deprecates (`tl` becomes `fil`); the ISO code stays
+        return canonical ? [codes.code, ...canonical.split("-").slice(1)].join("-") : null;
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return LANGUAGE_NAMES.get(lower)?.code ?? null;
+}
+
+// Language subtag of a tag, lower-cased: `pt` for `pt-BR`
+export function getBaseLanguage(tag: string): string {
+  return (canonicalizeLanguageTag(tag) ?? tag).split("-")[0].toLowerCase();
+}
+
+// ISO 639-3 code of a tag's language, e.g. `por` for `pt-BR`
+export function getIso6393Code(tag: string): string | null {
+  return LANGUAGE_CODES.get(getBaseLanguage(tag))?.iso6393 ?? null;
+}
+
+/**
+ * Parse a comma-separated `language` value into canonical tags, in preference order and
+ * without duplicates. Null when any entry is not a valid tag.
+ */
+export function parseLanguageList(values: string[]): string[] | null {
+  const tags: string[] = [];
+  for (const value of values) {
+    const tag = canonicalizeLanguageTag(value);
+    if (!tag) return null;
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Whether a result tagged `tag` shares its language with any requested tag. Sources use this
+ * to prefilter; region and script are told apart later by `languageTagMatches`.
+ */
+export function matchesLanguageBase(
+  tag: string,
+  requested: string | string[] | undefined,
+): boolean {
+  const entries =
+    Array.isArray(requested) ? requested
+    : requested ? [requested]
+    : [];
+  if (entries.length === 0) return true;
+  const base = getBaseLanguage(tag);
+  return entries.some((entry) => getBaseLanguage(entry) === base);
+}
+
+function getScript(locale: Intl.Locale): string | undefined {
+  try {
+    return locale.maximize().script;
+  } catch {
+    return locale.script;
+  }
+}
+
+/**
+ * Whether a result tagged `tag` satisfies one requested tag. A bare language matches every
+ * variant of it, a region must be named by the result, and a script is compared with the
+ * script implied by the result, so `zh-TW` satisfies `zh-Hant`.
+ */
+export function languageTagMatches(tag: string, requested: string): boolean {
+  const resultTag = canonicalizeLanguageTag(tag);
+  const requestedTag = canonicalizeLanguageTag(requested);
+  if (!resultTag || !requestedTag) return false;
+
+  const result = new Intl.Locale(resultTag);
+  const wanted = new Intl.Locale(requestedTag);
+  if (result.language !== wanted.language) return false;
+  if (wanted.region && result.region !== wanted.region) return false;
+  if (!wanted.script) return true;
+  // A bare `zh` names no script, so it cannot satisfy `zh-Hant`
+  return Boolean(result.script || result.region) && getScript(result) === wanted.script;
+}
+
+// Keep results matching any of the requested tags
+export function filterByLanguageTags<T extends { language: string }>(
+  items: T[],
+  tags: string[] | undefined,
+): T[] {
+  if (!tags || tags.length === 0) return items;
+  return items.filter((item) => tags.some((tag) => languageTagMatches(item.language, tag)));
+}
+
+/**
+ * Apply an ordered fallback list such as `pt-BR,pt,en`: keep the results of the first tag
+ * that has any, so later languages are only served when earlier ones have nothing.
+ */
+export function selectPreferredLanguage<T extends { language: string }>(
+  items: T[],
+  tags: string[] | undefined,
+): T[] {
+  if (!tags || tags.length === 0) return items;
+  for (const tag of tags) {
+    const matches = items.filter((item) => languageTagMatches(item.language, tag));
+    if (matches.length > 0) return matches;
+  }
+  return [];
+}
+
+// Country code for a language's flag, preferring the region a tag names
+export function getLanguageFlagCode(tag: string): string {
+  const canonical = canonicalizeLanguageTag(tag);
+  const region = canonical?.split("-").find((part) => /^[A-Z]{2}$/.test(part));
+  const base = getBaseLanguage(tag);
+  return region ?? languageToCountryCode[base] ?? base.toUpperCase();
+}
@@ -0,0 +1,39 @@
+/** @format */
+
+import type { MovieHash } from "~/utils/types";
+
+// Bytes read from each end of the video file
+export const MOVIE_HASH_CHUNK_SIZE = 64 * 1024;
+
+const UINT64_MASK = (1n << 64n) - 1n;
+
+function sumChunk(chunk: Uint8Array): bigint {
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  let sum = 0n;
+  for (let offset = 0; offset + 8 <= chunk.byteLength; offset += 8) {
+    sum = (sum + view.getBigUint64(offset, true)) & UINT64_MASK;
+  }
+  return sum;
+}
+
+/**
+ * OpenSubtitles video hash: the file size plus every little-endian 64-bit word of the first
+ * and last 64 KiB, wrapping at 64 bits.
+ */
+export function computeMovieHash(head: Uint8Array, tail: Uint8Array, byteSize: number): string {
+  const hash = (BigInt(byteSize) + sumChunk(head) + sumChunk(tail)) & UINT64_MASK;
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Validate `hash` and `bytesize` query values. Clients that drop leading zeros are accepted;
+ * the hash is padded back to 16 digits.
+ */
+export function parseMovieHash(hash: unknown, byteSize: unknown): MovieHash | null {
+  if (typeof hash !== "string" || !/^[0-9a-f]{1,16}$/i.test(hash.trim())) return null;
+  if (typeof byteSize !== "string" || !/^\d+$/.test(byteSize.trim())) return null;
+
+  const size = Number.parseInt(byteSize, 10);
+  if (!Number.isSafeInteger(size) || size < MOVIE_HASH_CHUNK_SIZE) return null;
+  return { hash: hash.trim().toLowerCase().padStart(16, "0"), byteSize: size };
+}
@@ -0,0 +1,66 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import { MAX_PAGE_LIMIT, StaleCursorError, paginate, parsePageRequest } from "~/utils/pagination";
+
+const ITEMS = Array.from({ length: 5 }, (_, index) => ({ id: String(index), source: "subdl" }));
+
+// Follow `nextCursor` the way a client would
+function nextPage(cursor: string | null) {
+  const { page } = parsePageRequest({ cursor });
+  if (!page) throw new Error("Expected a page");
+  return page;
+}
+
+describe("parsePageRequest", () => {
+  it("returns no page when nothing was asked for", () => {
+    expect(parsePageRequest({ id: "tt0111161" })).toEqual({ page: null });
+  });
+
+  it("reads limit and offset", () => {
+    expect(parsePageRequest({ limit: "2", offset: "4" })).toEqual({
+      page: { limit: 2, offset: 4 },
+    });
+    expect(parsePageRequest({ offset: "3" })).toEqual({ page: { offset: 3 } });
+  });
+
+  it("rejects malformed parameters", () => {
+    expect(parsePageRequest({ limit: "0" }).error).toMatch(/Limit/);
+    expect(parsePageRequest({ limit: String(MAX_PAGE_LIMIT + 1) }).error).toMatch(/Limit/);
+    expect(parsePageRequest({ offset: "-1" }).error).toMatch(/Offset/);
+    expect(parsePageRequest({ cursor: "not a cursor" }).error).toMatch(/cursor/);
+  });
+});
+
+describe("paginate", () => {
+  it("walks every result through cursors", () => {
+    const first = paginate(ITEMS, { offset: 0, limit: 2 });
+    expect(first.results.map((item) => item.id)).toEqual(["0", "1"]);
+    expect(first.pagination).toMatchObject({ total: 5, offset: 0, limit: 2 });
+
+    const second = paginate(ITEMS, nextPage(first.pagination.nextCursor));
+    expect(second.results.map((item) => item.id)).toEqual(["2", "3"]);
+
+    const last = paginate(ITEMS, nextPage(second.pagination.nextCursor));
+    expect(last.results.map((item) => item.id)).toEqual(["4"]);
+    expect(last.pagination.nextCursor).toBeNull();
+  });
+
+  it("returns everything from the offset on without a limit", () => {
+    const { results, pagination } = paginate(ITEMS, { offset: 3 });
+    expect(results.map((item) => item.id)).toEqual(["3", "4"]);
+    expect(pagination).toMatchObject({ limit: null, nextCursor: null });
+  });
+
+  it("lets offset override the one in a cursor", () => {
+    const { pagination } = paginate(ITEMS, { offset: 0, limit: 2 });
+    const { page } = parsePageRequest({ cursor: pagination.nextCursor, offset: "0" });
+    expect(page).toMatchObject({ offset: 0, limit: 2, snapshot: pagination.snapshot });
+  });
+
+  it("rejects a cursor issued for different results", () => {
+    const { pagination } = paginate(ITEMS, { offset: 0, limit: 2 });
+    const changed = [{ id: "new", source: "gestdown" }, ...ITEMS];
+    expect(() => paginate(changed, nextPage(pagination.nextCursor))).toThrow(StaleCursorError);
+  });
+});
@@ -0,0 +1,131 @@
+/** @format */
+
+import { hashString, readPositiveIntEnv } from "~/utils/utils";
+
+export const MAX_PAGE_LIMIT = readPositiveIntEnv("SEARCH_MAX_PAGE_LIMIT", 500);
+
+// Query parameters that select a page; they are left out of the result cache key
+export const PAGINATION_PARAMS = ["limit", "offset", "cursor"];
+
+export type PageRequest = {
+  limit?: number; // page size; omitted means "everything from offset on"
+  offset: number;
+  snapshot?: string; // result set a cursor was issued for
+};
+
+export type PageInfo = {
+  total: number;
+  offset: number;
+  limit: number | null;
+  nextCursor: string | null;
+  snapshot: string;
+};
+
+export class StaleCursorError extends Error {
+  constructor() {
+    super("The results changed since this cursor was issued. Restart from the first page.");
+    this.name = "StaleCursorError";
+  }
+}
+
+function encodeCursor(offset: number, limit: number, snapshot: string): string {
+  return btoa(`${offset}:${limit}:${snapshot}`)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCursor(cursor: string): PageRequest | null {
+  try {
+    const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+    const [rawOffset, rawLimit, snapshot] = atob(base64).split(":");
+    const offset = Number.parseInt(rawOffset, 10);
+    const limit = Number.parseInt(rawLimit, 10);
+    if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit <= 0) {
+      return null;
+    }
+    return { offset, limit, snapshot: snapshot || undefined };
+  } catch {
+    return null;
+  }
+}
+
+function parseNonNegativeInt(value: unknown): number | null {
+  if (typeof value !== "string" || !/^\d+$/.test(value.trim())) return null;
+  return Number.parseInt(value, 10);
+}
+
+/**
+ * Read `limit`, `offset` and `cursor` from a query. Returns null when the caller did not ask
+ * for a page, or an error message when a parameter is malformed.
+ */
+export function parsePageRequest(query: Record<string, unknown>): {
+  page: PageRequest | null;
+  error?: string;
+} {
+  if (!PAGINATION_PARAMS.some((param) => query[param] !== undefined)) {
+    return { page: null };
+  }
+
+  let page: PageRequest = { offset: 0 };
+  if (query.cursor !== undefined) {
+    const decoded = typeof query.cursor === "string" ? decodeCursor(query.cursor) : null;
+    if (!decoded) {
+      return { page: null, error: "The cursor is malformed." };
+    }
+    page = decoded;
+  }
+
+  if (query.offset !== undefined) {
+    const offset = parseNonNegativeInt(query.offset);
+    if (offset === null) {
+      return { page: null, error: "Offset must be a non-negative integer." };
+    }
+    page.offset = offset;
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseNonNegativeInt(query.limit);
+    if (limit === null || limit === 0 || limit > MAX_PAGE_LIMIT) {
+      return { page: null, error: `Limit must be an integer between 1 and ${MAX_PAGE_LIMIT}.` };
+    }
+    page.limit = limit;
+  }
+
+  return { page };
+}
+
+// Identifies an ordered result set, so cursors can tell when the results behind them changed
+export function getResultSnapshot(items: { id: string; source?: string | string[] }[]): string {
+  return hashString(items.map((item) => `${item.source}:${item.id}`).join("|"));
+}
+
+/**
+ * Slice one page out of a complete, already ordered result list. Throws StaleCursorError when
+ * a cursor was issued for a different result set than `items`.
+ */
+export function paginate<T extends { id: string; source?: string | string[] }>(
+  items: T[],
+  page: PageRequest,
+): { results: T[]; pagination: PageInfo } {
+  const snapshot = getResultSnapshot(items);
+  if (page.snapshot && page.snapshot !== snapshot) {
+    throw new StaleCursorError();
+  }
+
+  const end = page.limit !== undefined ? page.offset + page.limit : items.length;
+  const results = items.slice(page.offset, end);
+  const nextCursor =
+    page.limit !== undefined && end < items.length ? encodeCursor(end, page.limit, snapshot) : null;
+
+  return {
+    results,
+    pagination: {
+      total: items.length,
+      offset: page.offset,
+      limit: page.limit ?? null,
+      nextCursor,
+      snapshot,
+    },
+  };
+}
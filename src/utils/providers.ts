@@ -0,0 +1,53 @@
+/** @format */
+
+import type { MediaKind, SubtitleProvider } from "~/utils/types";
+import { sourcesConfig } from "~/sourcesConfig";
+
+const providers = new Map<string, SubtitleProvider>();
+
+/**
+ * Register a subtitle source. Modules under `src/sources/` call this once at import time;
+ * registration order is the order sources are queried and listed in.
+ */
+export function registerProvider(provider: SubtitleProvider): void {
+  const name = provider.name.toLowerCase();
+  if (providers.has(name)) {
+    console.warn(`[Providers] Provider "${name}" registered twice, keeping the latest.`);
+  }
+  providers.set(name, provider);
+}
+
+export function getProviders(): SubtitleProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getProvider(name: string | null | undefined): SubtitleProvider | undefined {
+  if (!name) return undefined;
+  return providers.get(name.trim().toLowerCase());
+}
+
+export function isProviderEnabled(provider: SubtitleProvider): boolean {
+  return sourcesConfig[provider.name] ?? provider.enabled;
+}
+
+export function getEnabledProviders(): SubtitleProvider[] {
+  return getProviders().filter(isProviderEnabled);
+}
+
+export function supportsMedia(provider: SubtitleProvider, kind: MediaKind): boolean {
+  return provider.capabilities[kind];
+}
+
+/**
+ * Find the provider owning a `/c/.../id/{fileId}` download. Ids without a known suffix
+ * belong to the provider that declares no suffix (OpenSubtitles).
+ */
+export function findProviderForFileId(fileId: string): SubtitleProvider | undefined {
+  const lowerFileId = fileId.toLowerCase();
+  const all = getProviders();
+  return (
+    all.find(
+      (provider) => provider.downloadSuffix && lowerFileId.endsWith(provider.downloadSuffix),
+    ) ?? all.find((provider) => !provider.downloadSuffix)
+  );
+}
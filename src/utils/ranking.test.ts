@@ -0,0 +1,127 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import type { ReleaseInfo, ResponseType } from "~/utils/types";
+import { getProviders } from "~/sources";
+import { rankResults, scoreResult } from "~/utils/ranking";
+
+function result(id: string, fields: Partial<ResponseType> = {}): ResponseType {
+  return {
+    id,
+    url: `https://example.com/${id}`,
+    flagUrl: "",
+    format: "srt",
+    encoding: "utf-8",
+    display: "English",
+    language: "en",
+    media: "The Matrix",
+    isHearingImpaired: false,
+    source: "subdl",
+    ...fields,
+  };
+}
+
+function withEdition(edition: string): ReleaseInfo {
+  return {
+    source: null,
+    streamingService: null,
+    resolution: null,
+    videoCodec: null,
+    audio: null,
+    edition,
+    group: null,
+    isProper: false,
+    isRepack: false,
+  };
+}
+
+const ids = (items: ResponseType[]) => items.map((item) => item.id);
+
+describe("scoreResult", () => {
+  it("rewards an exact release match over a partial one", () => {
+    const context = { hasReleaseFilters: true };
+    const exact = result("exact", { matchedFilter: "WEB-DL", matchedRelease: "web.dl" });
+    const partial = result("partial", { matchedFilter: "WEB", matchedRelease: "WEB-DL" });
+    expect(scoreResult(exact, context)).toBeGreaterThan(scoreResult(partial, context));
+    expect(scoreResult(partial, context)).toBeGreaterThan(scoreResult(result("none"), context));
+  });
+
+  it("follows the hearing impaired preference", () => {
+    const sdh = result("sdh", { isHearingImpaired: true });
+    const plain = result("plain");
+    expect(scoreResult(sdh, { hearingImpaired: true })).toBeGreaterThan(
+      scoreResult(plain, { hearingImpaired: true }),
+    );
+    expect(scoreResult(plain, {})).toBeGreaterThan(scoreResult(sdh, {}));
+  });
+
+  it("stays within 0 to 100", () => {
+    const best = result("best", {
+      matchedFilter: "x",
+      matchedRelease: "x",
+      origin: "WEB",
+      downloads: 10_000_000,
+      source: "opensubtitles",
+    });
+    const score = scoreResult(best, { hasReleaseFilters: true, origins: ["WEB"] });
+    expect(score).toBeLessThanOrEqual(100);
+    expect(scoreResult(result("worst", { source: "unknown" }), { hearingImpaired: true })).toBe(10);
+  });
+});
+
+describe("rankResults", () => {
+  const popular = result("popular", { downloads: 50_000, uploadedAt: "2020-01-01" });
+  const recent = result("recent", { downloads: 10, uploadedAt: "2024-06-01" });
+  const unknown = result("unknown");
+
+  it("orders by relevance by default", () => {
+    const ranked = rankResults([unknown, recent, popular], "relevance", {});
+    expect(ids(ranked)).toEqual(["popular", "recent", "unknown"]);
+    expect(ranked.every((item) => typeof item.score === "number")).toBe(true);
+  });
+
+  it("orders by downloads and by date, missing values last", () => {
+    expect(ids(rankResults([unknown, recent, popular], "downloads", {}))).toEqual([
+      "popular",
+      "recent",
+      "unknown",
+    ]);
+    expect(ids(rankResults([unknown, popular, recent], "date", {}))).toEqual([
+      "recent",
+      "popular",
+      "unknown",
+    ]);
+  });
+
+  it("orders by source in registry order", () => {
+    const names = getProviders().map((provider) => provider.name);
+    const items = [...names].reverse().map((name) => result(name, { source: name }));
+    expect(ids(rankResults(items, "source", {}))).toEqual(names);
+  });
+
+  it("puts file hash matches first in every mode", () => {
+    const hashed = result("hashed", { matchedBy: "hash" });
+    for (const sort of ["relevance", "downloads", "date", "source"] as const) {
+      expect(ids(rankResults([popular, recent, hashed], sort, {}))[0]).toBe("hashed");
+    }
+  });
+
+  it("puts requested editions first and other editions last", () => {
+    const extended = result("extended", {
+      releaseInfo: withEdition("Extended"),
+    });
+    const theatrical = result("theatrical", {
+      releaseInfo: withEdition("Theatrical"),
+      downloads: 90_000,
+    });
+    const plain = result("plain");
+    expect(
+      ids(rankResults([theatrical, plain, extended], "downloads", { editions: ["Extended"] })),
+    ).toEqual(["extended", "plain", "theatrical"]);
+  });
+
+  it("keeps the incoming order for ties", () => {
+    const items = ["a", "b", "c"].map((id) => result(id));
+    expect(ids(rankResults(items, "relevance", {}))).toEqual(["a", "b", "c"]);
+  });
+});
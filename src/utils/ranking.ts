@@ -0,0 +1,138 @@
+/** @format */
+
+import type { ResponseType } from "~/utils/types";
+import { getProvider, getProviders } from "~/sources";
+
+export const SORT_MODES = ["relevance", "downloads", "date", "source"] as const;
+export type SortMode = (typeof SORT_MODES)[number];
+
+export function isSortMode(value: string): value is SortMode {
+  return (SORT_MODES as readonly string[]).includes(value);
+}
+
+export type RankingContext = {
+  hearingImpaired?: boolean; // caller asked for hearing impaired subtitles
+  origins?: string[]; // upper-cased origins the caller asked for
+  hasReleaseFilters?: boolean; // release or file filters were supplied
+  editions?: string[]; // edition labels the caller asked for, e.g. "Extended"
+};
+
+// Points each signal contributes; they add up to 100
+const WEIGHTS = {
+  filterMatch: 40,
+  hearingImpaired: 15,
+  origin: 10,
+  reliability: 20,
+  downloads: 15,
+};
+
+// Download count at which the downloads signal is saturated
+const DOWNLOADS_CEILING = 100_000;
+const DEFAULT_RELIABILITY = 0.5;
+
+function getSourceName(item: ResponseType): string | undefined {
+  return Array.isArray(item.source) ? item.source[0] : item.source;
+}
+
+function normalizeRelease(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+function scoreFilterMatch(item: ResponseType, context: RankingContext): number {
+  if (!context.hasReleaseFilters || !item.matchedFilter) return 0;
+  // An exact release match beats a partial one
+  const exact =
+    item.matchedRelease &&
+    normalizeRelease(item.matchedRelease) === normalizeRelease(item.matchedFilter);
+  return exact ? 1 : 0.75;
+}
+
+function scoreHearingImpaired(item: ResponseType, context: RankingContext): number {
+  if (context.hearingImpaired) {
+    return item.isHearingImpaired ? 1 : 0;
+  }
+  return item.isHearingImpaired ? 0 : 1;
+}
+
+function scoreOrigin(item: ResponseType, context: RankingContext): number {
+  if (!item.origin) return 0;
+  if (context.origins && context.origins.length > 0) {
+    return context.origins.includes(item.origin.toUpperCase()) ? 1 : 0;
+  }
+  // Without a requested origin, a known one still means a better described release
+  return 0.5;
+}
+
+function scoreReliability(item: ResponseType): number {
+  return getProvider(getSourceName(item))?.reliability ?? DEFAULT_RELIABILITY;
+}
+
+function scoreDownloads(item: ResponseType): number {
+  if (!item.downloads || item.downloads <= 0) return 0;
+  return Math.min(1, Math.log10(item.downloads + 1) / Math.log10(DOWNLOADS_CEILING + 1));
+}
+
+export function scoreResult(item: ResponseType, context: RankingContext): number {
+  const score =
+    WEIGHTS.filterMatch * scoreFilterMatch(item, context) +
+    WEIGHTS.hearingImpaired * scoreHearingImpaired(item, context) +
+    WEIGHTS.origin * scoreOrigin(item, context) +
+    WEIGHTS.reliability * scoreReliability(item) +
+    WEIGHTS.downloads * scoreDownloads(item);
+  return Math.round(score * 100) / 100;
+}
+
+function compareNullableDesc(a: number | null, b: number | null): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return b - a;
+}
+
+function getUploadTime(item: ResponseType): number | null {
+  if (!item.uploadedAt) return null;
+  const time = Date.parse(item.uploadedAt);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Score every result and order them by `sort`, with file hash matches first. Ties keep the
+ * incoming order, and every mode falls back to the relevance score.
+ */
+export function rankResults(
+  items: ResponseType[],
+  sort: SortMode,
+  context: RankingContext,
+): ResponseType[] {
+  const sourceOrder = new Map(getProviders().map((provider, index) => [provider.name, index]));
+  const getSourceRank = (item: ResponseType) =>
+    sourceOrder.get(getSourceName(item) ?? "") ?? Number.MAX_SAFE_INTEGER;
+  const scored = items.map((item) => ({ ...item, score: scoreResult(item, context) }));
+
+  const byScore = (a: ResponseType, b: ResponseType) => (b.score ?? 0) - (a.score ?? 0);
+  const comparators: Record<SortMode, (a: ResponseType, b: ResponseType) => number> = {
+    relevance: byScore,
+    downloads: (a, b) =>
+      compareNullableDesc(a.downloads ?? null, b.downloads ?? null) || byScore(a, b),
+    date: (a, b) => compareNullableDesc(getUploadTime(a), getUploadTime(b)) || byScore(a, b),
+    source: (a, b) => getSourceRank(a) - getSourceRank(b) || byScore(a, b),
+  };
+
+  // A file hash match is synced to the caller's exact video, so it leads in every mode
+  const byHashMatch = (a: ResponseType, b: ResponseType) =>
+    Number(b.matchedBy === "hash") - Number(a.matchedBy === "hash");
+
+  // Cuts differ in timing. Requested editions are filtered first when any exist; otherwise
+  // this is the fallback, where unknown editions lead and other editions come last
+  const editions = context.editions ?? [];
+  const getEditionRank = (item: ResponseType) => {
+    const edition = item.releaseInfo?.edition;
+    if (!edition) return 1;
+    return editions.includes(edition) ? 0 : 2;
+  };
+  const byEdition = (a: ResponseType, b: ResponseType) =>
+    editions.length > 0 ? getEditionRank(a) - getEditionRank(b) : 0;
+
+  // Array.prototype.sort is stable, so equal entries keep provider order
+  return scored.sort((a, b) => byHashMatch(a, b) || byEdition(a, b) || comparators[sort](a, b));
+}
@@ -0,0 +1,120 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import { parseReleaseName } from "~/utils/release";
+
+describe("parseReleaseName", () => {
+  it("reads a scene movie release", () => {
+    expect(
+      parseReleaseName("The.Matrix.1999.1080p.BluRay.x264.DTS-HD.MA.5.1-FGT.mkv"),
+    ).toMatchObject({
+      name: "The.Matrix.1999.1080p.BluRay.x264.DTS-HD.MA.5.1-FGT",
+      title: "The Matrix",
+      year: 1999,
+      resolution: "1080p",
+      source: "BluRay",
+      videoCodec: "H.264",
+      group: "FGT",
+    });
+  });
+
+  it("reads a scene episode release", () => {
+    expect(parseReleaseName("Severance.S02E03.2160p.ATVP.WEB-DL.DDP5.1.H.265-NTb")).toMatchObject({
+      title: "Severance",
+      season: 2,
+      episode: 3,
+      resolution: "2160p",
+      source: "WEB-DL",
+      group: "NTb",
+    });
+  });
+
+  it("keeps years that belong to the title", () => {
+    expect(parseReleaseName("2001.A.Space.Odyssey.1968.720p.BluRay")).toMatchObject({
+      title: "2001 A Space Odyssey",
+      year: 1968,
+    });
+    expect(parseReleaseName("Blade.Runner.2049.2017.1080p.WEB-DL")).toMatchObject({
+      title: "Blade Runner 2049",
+      year: 2017,
+    });
+  });
+
+  it("only ends the title at the year or episode marker", () => {
+    expect(parseReleaseName("MAD.MAX.FURY.ROAD.2015.1080p.BluRay.x264-SPARKS")).toMatchObject({
+      title: "MAD MAX FURY ROAD",
+      year: 2015,
+    });
+    expect(parseReleaseName("Pal.Joey.1957.DVDRip.XviD")).toMatchObject({
+      title: "Pal Joey",
+      source: "DVD",
+    });
+    expect(parseReleaseName("Extended.Family.S01E01.720p.HDTV.x264")).toMatchObject({
+      title: "Extended Family",
+      season: 1,
+      episode: 1,
+    });
+  });
+
+  it("does not read title words as tags", () => {
+    expect(parseReleaseName("MAD.MAX.FURY.ROAD.2015.1080p.BluRay.x264-SPARKS")).toMatchObject({
+      source: "BluRay",
+      streamingService: null,
+    });
+    expect(parseReleaseName("Extended.Family.S01E01.720p.HDTV.x264")).toMatchObject({
+      edition: null,
+    });
+    expect(parseReleaseName("CR.Stories.TS.Eliot.2019.720p.WEB")).toMatchObject({
+      title: "CR Stories TS Eliot",
+      source: "WEB",
+      streamingService: null,
+    });
+  });
+
+  it("reads short tags in the technical part", () => {
+    expect(parseReleaseName("Show.S01E02.1080p.MAX.WEB-DL.DDP5.1.H.264-FLUX")).toMatchObject({
+      streamingService: "Max",
+      audio: "DD+ 5.1",
+    });
+    expect(parseReleaseName("Pal.Joey.1957.PAL.DVD9")).toMatchObject({ source: "DVD" });
+    expect(parseReleaseName("Some.Movie.2024.720p.TS.x264")).toMatchObject({
+      source: "Telesync",
+    });
+  });
+
+  it("treats edition tags right before the year as technical", () => {
+    expect(parseReleaseName("Aliens.Directors.Cut.1986.1080p.BluRay")).toMatchObject({
+      title: "Aliens",
+      edition: "Director's Cut",
+    });
+    expect(parseReleaseName("Some.Movie.PROPER.720p.WEB")).toMatchObject({
+      title: "Some Movie",
+      isProper: true,
+    });
+  });
+
+  it("reads fansub releases", () => {
+    expect(parseReleaseName("[SubsPlease] Frieren - 01 (1080p) [F2B5A4E3].mkv")).toMatchObject({
+      title: "Frieren",
+      season: null,
+      episode: 1,
+      resolution: "1080p",
+      group: "SubsPlease",
+    });
+    expect(parseReleaseName("[Erai-raws] One Piece - 1071v2 [720p]")).toMatchObject({
+      title: "One Piece",
+      episode: 1071,
+      group: "Erai-raws",
+    });
+  });
+
+  it("falls back to unambiguous tags when there is no year", () => {
+    expect(parseReleaseName("Some.Movie.BluRay.x264-GRP")).toMatchObject({
+      title: "Some Movie",
+      source: "BluRay",
+      group: "GRP",
+    });
+    expect(parseReleaseName("Pal Joey")).toMatchObject({ title: "Pal Joey", group: null });
+    expect(parseReleaseName("S01E01.720p.HDTV")).toMatchObject({ title: null, episode: 1 });
+  });
+});
@@ -0,0 +1,323 @@
+/** @format */
+
+import type { ReleaseInfo } from "~/utils/types";
+
+// What a scene/P2P release or file name says about the video it belongs to
+export type ParsedRelease = ReleaseInfo & {
+  name: string; // base name without path or extension
+  title: string | null;
+  year: number | null;
+  season: number | null;
+  episode: number | null;
+};
+
+const FILE_EXTENSION_PATTERN =
+  /\.(?:mkv|mp4|m4v|avi|mov|wmv|ts|m2ts|webm|flv|mpg|mpeg|srt|ass|ssa|sub|vtt|idx|nfo)$/i;
+
+// Checked in order; the first match names the source
+const SOURCE_PATTERNS: [RegExp, string][] = [
+  [/\b(?:BD)?Remux\b/i, "Remux"],
+  [/\b(?:BluRay|Blu-Ray|BDRip|BRRip|BD(?:25|50)?)\b/i, "BluRay"],
+  [/\bWEB[ ._-]?DL\b/i, "WEB-DL"],
+  [/\bWEB[ ._-]?Rip\b/i, "WEBRip"],
+  [/\bWEB[ ._-]?Cap\b/i, "WEBCap"],
+  [/\bWEB\b/i, "WEB"],
+  [/\bHDTV\b/i, "HDTV"],
+  [/\b(?:PDTV|DSR|DSRip|SDTV)\b/i, "TV"],
+  [/\bHDRip\b/i, "HDRip"],
+  [/\b(?:DVDRip|DVD[59]?|DVDR|NTSC|PAL)\b/i, "DVD"],
+  [/\b(?:DVDSCR|SCREENER|SCR)\b/i, "Screener"],
+  [/\b(?:HDCAM|CAM|CamRip)\b/i, "CAM"],
+  [/\b(?:TELESYNC|HD-?TS|TS)\b/i, "Telesync"],
+  [/\b(?:TELECINE|TC)\b/i, "Telecine"],
+];
+
+// Scene tags for streaming services; a service tag without a source still means a WEB release
+const STREAMING_SERVICES: [RegExp, string][] = [
+  [/\bAMZN\b/i, "Amazon"],
+  [/\b(?:NF|NFLX)\b/, "Netflix"],
+  [/\bDSNP\b/i, "Disney+"],
+  [/\b(?:HMAX|MAX)\b/, "Max"],
+  [/\bHBO\b/, "HBO"],
+  [/\bATVP\b/i, "Apple TV+"],
+  [/\bHULU\b/i, "Hulu"],
+  [/\bPCOK\b/i, "Peacock"],
+  [/\bPMTP\b/i, "Paramount+"],
+  [/\b(?:iT|iTunes)\b/, "iTunes"],
+  [/\bCR\b/, "Crunchyroll"],
+  [/\bSTAN\b/, "Stan"],
+  [/\bCRAV\b/i, "Crave"],
+  [/\bROKU\b/i, "Roku"],
+];
+
+const VIDEO_CODECS: [RegExp, string][] = [
+  [/\b(?:x265|h[ .]?265|HEVC)\b/i, "H.265"],
+  [/\b(?:x264|h[ .]?264|AVC)\b/i, "H.264"],
+  [/\bAV1\b/i, "AV1"],
+  [/\bVP9\b/i, "VP9"],
+  [/\bXviD\b/i, "XviD"],
+  [/\bDivX\b/i, "DivX"],
+];
+
+const AUDIO_CODECS: [RegExp, string][] = [
+  [/\bTrueHD\b/i, "TrueHD"],
+  [/\bDTS[ .-]?HD[ .-]?MA\b/i, "DTS-HD MA"],
+  [/\bDTS[ .-]?X\b/i, "DTS:X"],
+  [/\bDTS\b/i, "DTS"],
+  [/\b(?:DDP|DD\+|E-?AC-?3)/i, "DD+"],
+  [/\b(?:DD|AC-?3)(?=[ .]?\d\.\d|\b)/i, "DD"],
+  [/\bAAC/i, "AAC"],
+  [/\bFLAC\b/i, "FLAC"],
+  [/\bOpus\b/i, "Opus"],
+  [/\bMP3\b/i, "MP3"],
+];
+
+const AUDIO_CHANNELS_PATTERN =
+  /(?:DDP|DD\+?|AAC|DTS(?:[ .-]?HD[ .-]?MA)?|TrueHD|FLAC|E-?AC-?3|AC-?3|Opus)[ .]?([1-7][ .]\d)\b/i;
+
+const EDITIONS: [RegExp, string][] = [
+  [/\bDirector'?s[ ._-]?Cut\b/i, "Director's Cut"],
+  [/\bExtended(?:[ ._-]?(?:Cut|Edition))?\b/i, "Extended"],
+  [/\bUnrated\b/i, "Unrated"],
+  [/\bUncut\b/i, "Uncut"],
+  [/\bTheatrical(?:[ ._-]?Cut)?\b/i, "Theatrical"],
+  [/\bIMAX\b/i, "IMAX"],
+  [/\bRemastered\b/i, "Remastered"],
+  [/\bCriterion\b/i, "Criterion"],
+  [/\bSpecial[ ._-]?Edition\b/i, "Special Edition"],
+];
+
+// Coarse origin labels served as `origin` and matched by `?origin=`
+const SOURCE_ORIGINS: Record<string, string> = {
+  Remux: "BluRay",
+  BluRay: "BluRay",
+  "WEB-DL": "WEB",
+  WEBRip: "WEB",
+  WEBCap: "WEB",
+  WEB: "WEB",
+  HDTV: "HDTV",
+  TV: "HDTV",
+  DVD: "DVD",
+  Screener: "CAM",
+  CAM: "CAM",
+  Telesync: "CAM",
+  Telecine: "CAM",
+  HDRip: "HDRip",
+};
+
+const RESOLUTION_PATTERN = /\b(2160|1440|1080|720|576|540|480|360)[pi]\b/i;
+const UHD_PATTERN = /\b(?:4K|UHD)\b/i;
+const EPISODE_PATTERN = /\bS(\d{1,2})[ ._-]?E(\d{1,3})\b/i;
+const CROSS_EPISODE_PATTERN = /\b(\d{1,2})x(\d{2,3})\b/i;
+const SEASON_PATTERN = /\bS(\d{1,2})\b|\bSeason[ ._-]?(\d{1,2})\b/i;
+// Fansub episode numbers: "Show - 01", "Show - 1071v2"
+const ANIME_EPISODE_PATTERN = / - (\d{1,4})(?:v\d)?(?=[ .[(]|$)/;
+// Tokens that only ever name a release, used to find where the title stops when the name
+// carries no year, episode or resolution
+const TECHNICAL_TOKEN_PATTERN =
+  /\b(?:Remux|BluRay|Blu-Ray|BDRip|BRRip|WEB[ ._-]?(?:DL|Rip)|HDTV|HDRip|DVDRip|x26[45]|HEVC|XviD|AMZN|NFLX|DSNP|ATVP)\b/i;
+const YEAR_PATTERN = /\b(19\d{2}|20\d{2})\b/g;
+// Trailing "-GROUP", optionally followed by a bracketed tag such as "[rarbg]"
+const LEADING_GROUP_PATTERN = /^\[([^\]]+)\][ ._]*/;
+const GROUP_PATTERN = /-([A-Za-z0-9][A-Za-z0-9_]*)(?:\[[^\]]*\])?$/;
+
+function toInt(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function findLabel(
+  name: string,
+  patterns: [RegExp, string][],
+): { label: string; index: number } | null {
+  for (const [pattern, label] of patterns) {
+    const match = name.match(pattern);
+    if (match) return { label, index: match.index };
+  }
+  return null;
+}
+
+// Editions and PROPER/REPACK tags directly before the first technical token, as in
+// "Movie.Extended.1080p"; the same words earlier on ("Extended.Family") belong to the title
+const TRAILING_TAG_PATTERN = new RegExp(
+  `[ ._-](?:${[...EDITIONS.map(([pattern]) => pattern.source), "PROPER", "REPACK", "RERIP"].join("|")})[ ._-]*$`,
+  "i",
+);
+
+/**
+ * Offset where the technical part of a name starts: the year, episode marker or resolution,
+ * whichever comes first, widened over any edition tags right before it. Title words such as
+ * "Max" or "Pal" are only read as tags after this point.
+ */
+function findTechnicalStart(body: string, anchors: (number | undefined)[]): number {
+  let start = Math.min(...anchors.filter((index): index is number => index !== undefined));
+  if (!Number.isFinite(start)) {
+    start = body.match(TECHNICAL_TOKEN_PATTERN)?.index ?? body.length;
+  }
+  for (let tag = body.slice(0, start).match(TRAILING_TAG_PATTERN); tag?.index; ) {
+    start = tag.index;
+    tag = body.slice(0, start).match(TRAILING_TAG_PATTERN);
+  }
+  return start;
+}
+
+function cleanTitle(value: string): string | null {
+  const title = value
+    .replace(/[._]+/g, " ")
+    .replace(/[\[(][^\])]*[\])]/g, " ")
+    .replace(/[\s([-]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return title.length > 0 ? title : null;
+}
+
+/**
+ * Parse a release or file name such as `Show.Name.S02E05.1080p.AMZN.WEB-DL.DDP5.1.H.264-NTb.mkv`.
+ * Fields the name does not carry are null.
+ */
+export function parseReleaseName(input: string): ParsedRelease {
+  const base = (input.split(/[\\/]/).pop() ?? input).trim();
+  const name = base.replace(FILE_EXTENSION_PATTERN, "");
+  // Fansub releases lead with their group: "[SubsPlease] Show - 01 (1080p)"
+  const leadingGroup = name.match(LEADING_GROUP_PATTERN);
+  const body = leadingGroup ? name.slice(leadingGroup[0].length) : name;
+
+  let season: number | null = null;
+  let episode: number | null = null;
+  let episodeIndex: number | undefined;
+  const episodeMatch = body.match(EPISODE_PATTERN) ?? body.match(CROSS_EPISODE_PATTERN);
+  const animeEpisodeMatch = leadingGroup ? body.match(ANIME_EPISODE_PATTERN) : null;
+  if (episodeMatch) {
+    season = toInt(episodeMatch[1]);
+    episode = toInt(episodeMatch[2]);
+    episodeIndex = episodeMatch.index;
+  } else if (animeEpisodeMatch) {
+    episode = toInt(animeEpisodeMatch[1]);
+    episodeIndex = animeEpisodeMatch.index;
+  } else {
+    const seasonMatch = body.match(SEASON_PATTERN);
+    if (seasonMatch) {
+      season = toInt(seasonMatch[1] ?? seasonMatch[2]);
+      episodeIndex = seasonMatch.index;
+    }
+  }
+
+  // The last year wins, so years inside titles ("2001 A Space Odyssey", "Blade Runner 2049")
+  // stay part of the title
+  const yearMatch = [...body.matchAll(YEAR_PATTERN)].filter((match) => match.index > 0).pop();
+  const year = yearMatch ? toInt(yearMatch[1]) : null;
+
+  const resolutionMatch = body.match(RESOLUTION_PATTERN);
+  const uhdMatch = body.match(UHD_PATTERN);
+  const resolution =
+    resolutionMatch ? `${resolutionMatch[1]}p`
+    : uhdMatch ? "2160p"
+    : null;
+
+  // The title is everything before the technical part
+  const titleEnd = findTechnicalStart(body, [
+    episodeIndex,
+    yearMatch?.index,
+    resolutionMatch?.index ?? uhdMatch?.index,
+  ]);
+
+  // Short tags ("MAX", "CR", "TS", "PAL", "Extended") are ordinary words inside titles, so tags
+  // are only read from the technical part
+  const technical = body.slice(titleEnd);
+  const source = findLabel(technical, SOURCE_PATTERNS);
+  const streamingService = findLabel(technical, STREAMING_SERVICES);
+  const videoCodec = findLabel(technical, VIDEO_CODECS);
+  const audioCodec = findLabel(technical, AUDIO_CODECS);
+  const channels = technical.match(AUDIO_CHANNELS_PATTERN)?.[1]?.replace(" ", ".");
+  const audio =
+    audioCodec ?
+      [audioCodec.label, channels, /\bAtmos\b/i.test(technical) ? "Atmos" : null]
+        .filter(Boolean)
+        .join(" ")
+    : null;
+  const edition = findLabel(technical, EDITIONS);
+  const isProper = /\bPROPER\b/i.test(technical);
+  const isRepack = /\b(?:REPACK|RERIP)\b/i.test(technical);
+
+  const groupMatch = body.match(GROUP_PATTERN);
+  // "WEB-DL" or "H-264" at the end are not groups
+  const group =
+    groupMatch && titleEnd < body.length && !/^(?:DL|Rip|\d+)$/i.test(groupMatch[1]) ?
+      groupMatch[1]
+    : (leadingGroup?.[1].trim() ?? null);
+
+  return {
+    name,
+    title: cleanTitle(body.slice(0, titleEnd)),
+    year,
+    season,
+    episode,
+    source: source?.label ?? null,
+    streamingService: streamingService?.label ?? null,
+    resolution,
+    videoCodec: videoCodec?.label ?? null,
+    audio,
+    edition: edition?.label ?? null,
+    group,
+    isProper,
+    isRepack,
+  };
+}
+
+/**
+ * Combine what several names for the same subtitle say (release, file name, comment), taking
+ * each field from the first name that carries it.
+ */
+export function parseReleaseInfo(names: (string | null | undefined)[]): ReleaseInfo {
+  const info: ReleaseInfo = {
+    source: null,
+    streamingService: null,
+    resolution: null,
+    videoCodec: null,
+    audio: null,
+    edition: null,
+    group: null,
+    isProper: false,
+    isRepack: false,
+  };
+
+  for (const name of names) {
+    if (typeof name !== "string" || name.trim().length === 0) continue;
+    const parsed = parseReleaseName(name);
+    info.source ??= parsed.source;
+    info.streamingService ??= parsed.streamingService;
+    info.resolution ??= parsed.resolution;
+    info.videoCodec ??= parsed.videoCodec;
+    info.audio ??= parsed.audio;
+    info.edition ??= parsed.edition;
+    info.group ??= parsed.group;
+    info.isProper ||= parsed.isProper;
+    info.isRepack ||= parsed.isRepack;
+  }
+
+  return info;
+}
+
+// The coarse origin label ("WEB", "BluRay", ...) of a parsed release
+export function getReleaseOrigin(info: ReleaseInfo): string | null {
+  if (info.source) return SOURCE_ORIGINS[info.source] ?? null;
+  return info.streamingService ? "WEB" : null;
+}
+
+export const EDITION_LABELS = EDITIONS.map(([, label]) => label);
+
+// Accepts an edition label in any spelling, e.g. "directors-cut", "DC" or "extended"
+export function normalizeEdition(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^dc$/i.test(trimmed)) return "Director's Cut";
+  return findLabel(trimmed, EDITIONS)?.label ?? null;
+}
+
+// Accepts "2160p", "2160", "4K" or "UHD"
+export function normalizeResolution(value: string): string | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === "4k" || trimmed === "uhd") return "2160p";
+  const match = trimmed.match(/^(\d{3,4})[pi]?$/);
+  return match ? `${match[1]}p` : null;
+}
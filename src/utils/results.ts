@@ -0,0 +1,230 @@
+/** @format */
+
+import type { ResponseType, SubtitleType } from "~/utils/types";
+import { applyReleaseAndFileFilters, applyReleaseExclusions } from "~/utils/utils";
+import { getProvider } from "~/sources";
+import { applyContentTraits } from "~/utils/contentTraits";
+import { filterByLanguageTags, getIso6393Code, languageTagMatches } from "~/utils/language";
+
+// `hi=` and `mt=` values: keep only flagged results, drop them, or keep everything
+export type HearingImpairedMode = "only" | "exclude" | "any";
+export type MachineTranslationMode = HearingImpairedMode;
+
+export type ResultFilters = {
+  releaseFilters?: string[];
+  fileFilters?: string[];
+  origins?: string[]; // upper-cased origin names, e.g. "BLURAY"
+  resolutions?: string[]; // normalized resolutions, e.g. "2160p"
+  groups?: string[]; // lower-cased release groups, e.g. "ntb"
+  languages?: string[]; // canonical BCP-47 tags in preference order, e.g. "pt-BR"
+  hearingImpaired?: HearingImpairedMode; // "any" when unset
+  types?: SubtitleType[]; // e.g. ["forced"]; results without a type count as full
+  machineTranslated?: MachineTranslationMode; // "any" when unset
+  // Results matching any of these are dropped
+  excludeLanguages?: string[]; // canonical BCP-47 tags; `pt` also drops pt-BR
+  excludeSources?: string[]; // lower-cased provider names
+  excludeFormats?: string[]; // lower-cased formats, e.g. "ass"
+  excludeReleases?: string[]; // release groups or words in release and file names
+};
+
+export function hasResultFilters(filters: ResultFilters): boolean {
+  return Boolean(
+    filters.releaseFilters?.length ||
+      filters.fileFilters?.length ||
+      filters.origins?.length ||
+      filters.resolutions?.length ||
+      filters.groups?.length,
+  );
+}
+
+// Post-search filters applied by /search, whether results are returned at once or streamed
+export function applyResultFilters(items: ResponseType[], filters: ResultFilters): ResponseType[] {
+  let filtered = applyReleaseAndFileFilters(
+    applyContentTraits(items),
+    filters.releaseFilters,
+    filters.fileFilters,
+  );
+
+  // Every source reports isHearingImpaired, so HI is filtered here rather than per source
+  if (filters.hearingImpaired === "only") {
+    filtered = filtered.filter((item) => item.isHearingImpaired);
+  } else if (filters.hearingImpaired === "exclude") {
+    filtered = filtered.filter((item) => !item.isHearingImpaired);
+  }
+
+  const origins = filters.origins;
+  if (origins && origins.length > 0) {
+    filtered = filtered.filter(
+      (item) => item.origin && origins.includes(item.origin.toUpperCase()),
+    );
+  }
+
+  if (filters.machineTranslated === "only") {
+    filtered = filtered.filter((item) => item.machineTranslated);
+  } else if (filters.machineTranslated === "exclude") {
+    filtered = filtered.filter((item) => !item.machineTranslated);
+  }
+
+  const types = filters.types;
+  if (types && types.length > 0) {
+    filtered = filtered.filter((item) => types.includes(item.type ?? "full"));
+  }
+
+  const { excludeLanguages, excludeSources, excludeFormats } = filters;
+  if (excludeLanguages && excludeLanguages.length > 0) {
+    filtered = filtered.filter(
+      (item) => !excludeLanguages.some((tag) => languageTagMatches(item.language, tag)),
+    );
+  }
+  if (excludeSources && excludeSources.length > 0) {
+    filtered = filtered.filter((item) => {
+      const sources = Array.isArray(item.source) ? item.source : [item.source];
+      return !sources.some((source) => excludeSources.includes(source?.toLowerCase()));
+    });
+  }
+  if (excludeFormats && excludeFormats.length > 0) {
+    filtered = filtered.filter((item) => !excludeFormats.includes(item.format?.toLowerCase()));
+  }
+  filtered = applyReleaseExclusions(filtered, filters.excludeReleases);
+
+  const { resolutions, groups } = filters;
+  if (resolutions && resolutions.length > 0) {
+    filtered = filtered.filter((item) => resolutions.includes(item.releaseInfo?.resolution));
+  }
+  if (groups && groups.length > 0) {
+    filtered = filtered.filter((item) => groups.includes(item.releaseInfo?.group?.toLowerCase()));
+  }
+
+  // Sources only match on the base language; regions and scripts are told apart here
+  return filterByLanguageTags(filtered, filters.languages);
+}
+
+/**
+ * Apply an `edition=` filter: keep only results of the requested editions when there are any,
+ * along with hash matches, which fit the caller's file whatever its cut. When none match,
+ * everything is kept and ranking puts unknown editions ahead of other cuts instead.
+ */
+export function selectRequestedEditions(
+  items: ResponseType[],
+  editions: string[] | undefined,
+): ResponseType[] {
+  if (!editions || editions.length === 0) return items;
+  const isRequested = (item: ResponseType) => {
+    const edition = item.releaseInfo?.edition;
+    return Boolean(edition && editions.includes(edition));
+  };
+  if (!items.some(isRequested)) return items;
+  return items.filter((item) => isRequested(item) || item.matchedBy === "hash");
+}
+
+// Host used for the `/c/...` download links handed out to clients
+export function getPublicHost(): string {
+  return process.env.NODE_ENV === "production" ? "https://sub.wyzie.ru" : "http://localhost:3000";
+}
+
+/**
+ * Path of our download route serving `item`, e.g. `/c/{vrf}/id/{fileId}.subdl`. Null when the
+ * item's provider cannot build a download link for it.
+ */
+export function getDownloadPath(item: ResponseType): string | null {
+  const provider = typeof item.source === "string" ? getProvider(item.source) : undefined;
+  const locator = provider?.buildDownloadLocator(item);
+  if (!provider || !locator) {
+    return null;
+  }
+  return `/c/${locator.vrf}/id/${locator.fileId}${provider.downloadSuffix ?? ""}`;
+}
+
+function toPublicUrl(item: ResponseType, host: string): string {
+  const normalizedFormat =
+    item.format && item.format.toLowerCase() !== "unknown" ? item.format : undefined;
+  const normalizedEncoding =
+    item.encoding && item.encoding.toLowerCase() !== "unknown" ? item.encoding : undefined;
+  const formatParam = normalizedFormat ? `format=${encodeURIComponent(normalizedFormat)}` : "";
+  const encodingParam =
+    normalizedEncoding ? `encoding=${encodeURIComponent(normalizedEncoding)}` : "";
+  const queryParams = [formatParam, encodingParam].filter(Boolean).join("&");
+
+  const downloadPath = getDownloadPath(item);
+  if (!downloadPath) {
+    return item.url;
+  }
+  return `${host}${downloadPath}${queryParams ? `?${queryParams}` : ""}`;
+}
+
+/**
+ * Rewrite a provider result into the shape served by the API, pointing its URL at our
+ * download route. Results whose provider cannot build a download link keep their URL.
+ */
+export function toPublicResult(item: ResponseType, host: string) {
+  const newUrl = toPublicUrl(item, host);
+
+  return {
+    id: item.id,
+    url: newUrl,
+    flagUrl: item.flagUrl,
+    format: item.format,
+    encoding: item.encoding,
+    display: item.display,
+    language: item.language,
+    iso6393: getIso6393Code(item.language),
+    media: item.media,
+    isHearingImpaired: item.isHearingImpaired,
+    type: item.type ?? "full",
+    machineTranslated: item.machineTranslated ?? false,
+    source: item.source,
+    release: item.release ?? null,
+    releases: item.releases ?? [],
+    origin: item.origin ?? null,
+    releaseInfo: item.releaseInfo ?? null,
+    edition: item.releaseInfo?.edition ?? null,
+    fileName: item.fileName ?? null,
+    matchedRelease: item.matchedRelease ?? null,
+    matchedFilter: item.matchedFilter ?? null,
+    downloads: item.downloads ?? null,
+    uploadedAt: item.uploadedAt ?? null,
+    score: item.score ?? null,
+    season: item.season ?? null,
+    episode: item.episode ?? null,
+    matchedBy: item.matchedBy ?? null,
+    alternates: (item.alternates ?? []).map((alternate) => ({
+      id: alternate.id,
+      url: toPublicUrl(alternate, host),
+      source: alternate.source,
+      format: alternate.format,
+      encoding: alternate.encoding,
+    })),
+  };
+}
+
+export type EpisodeGroups<T> = {
+  season: number;
+  episodes: Record<string, T[]>; // keyed by episode number, in episode order
+  unknown: T[]; // season packs and results whose episode could not be told
+};
+
+/**
+ * Group whole-season results by episode. Each group keeps the incoming (ranked) order.
+ */
+export function groupResultsByEpisode<T extends { episode?: number | null }>(
+  items: T[],
+  season: number,
+): EpisodeGroups<T> {
+  const byEpisode = new Map<number, T[]>();
+  const unknown: T[] = [];
+  for (const item of items) {
+    if (item.episode == null) {
+      unknown.push(item);
+      continue;
+    }
+    const group = byEpisode.get(item.episode) ?? [];
+    group.push(item);
+    byEpisode.set(item.episode, group);
+  }
+
+  const episodes: Record<string, T[]> = {};
+  for (const episode of [...byEpisode.keys()].sort((a, b) => a - b)) {
+    episodes[String(episode)] = byEpisode.get(episode);
+  }
+  return { season, episodes, unknown };
+}
@@ -0,0 +1,124 @@
+/** @format */
+
+import { createErrorResponse, isSeasonRequest } from "~/utils/utils";
+import { getTmdbReleaseInfo } from "~/utils/idMapping";
+import { getPublicHost, groupResultsByEpisode, hasResultFilters } from "~/utils/results";
+import { parseSearchQuery, runSearchQuery } from "~/utils/searchQuery";
+import { PAGINATION_PARAMS, type PageRequest } from "~/utils/pagination";
+import {
+  buildCacheControl,
+  buildCacheKey,
+  getEmptyResultTtl,
+  getSearchCacheTtl,
+  type CacheTags,
+  type CacheableResponse,
+} from "~/utils/cache";
+
+// Bumped whenever the payload shape changes, so old entries are never served
+export const SEARCH_CACHE_VERSION = "search:v3";
+
+/**
+ * Cache key of a /search URL. The full result set is cached once and every page is sliced
+ * from it, so pagination is left out.
+ */
+export function getSearchCacheKey(url: URL): string {
+  return buildCacheKey(SEARCH_CACHE_VERSION, url, PAGINATION_PARAMS);
+}
+
+export function seasonPaginationError() {
+  return createErrorResponse(
+    400,
+    "Invalid pagination",
+    "Pagination is not supported for whole-season searches. Add an episode to page results.",
+    "/search?id=tt0944947&season=1&episode=1&limit=20",
+  );
+}
+
+// Run the search and build the full, unpaginated response along with how long to cache it
+export async function produceSearchResponse(
+  query: Record<string, unknown>,
+  page: PageRequest | null,
+): Promise<CacheableResponse> {
+  const parsed = await parseSearchQuery(query);
+  if (parsed instanceof Response) {
+    return { response: parsed, ttlSeconds: null };
+  }
+  const { request, filters, verbose, lookup } = parsed;
+
+  if (page && isSeasonRequest(request)) {
+    return { response: seasonPaginationError(), ttlSeconds: null };
+  }
+
+  try {
+    // Get host URL for subtitle download links. The release date sets how long to cache.
+    const [{ results: transformedData, report }, { title, releaseDate }] = await Promise.all([
+      runSearchQuery(parsed, getPublicHost()),
+      request.imdbId ?
+        getTmdbReleaseInfo(request.imdbId, request.season, request.episode)
+      : Promise.resolve({ title: null, releaseDate: null }),
+    ]);
+    const tags: CacheTags = {
+      imdbId: report.resolvedImdbId ?? request.imdbId ?? null,
+      title: lookup?.title || title,
+      season: request.season ?? null,
+      episode: request.episode ?? null,
+      sources: report.sources.map((source) => source.name),
+    };
+
+    // An empty answer is only trusted, and cached, when every source actually replied. A
+    // source that failed or timed out may hold the subtitles; a search of no sources proves nothing.
+    const everySourceReplied =
+      report.sources.length > 0 && report.sources.every((source) => source.status === "ok");
+    const emptyTtl = everySourceReplied ? getEmptyResultTtl(releaseDate) : null;
+
+    if (!verbose && transformedData.length === 0) {
+      const response =
+        hasResultFilters(filters) ?
+          createErrorResponse(
+            400,
+            "No matching release found",
+            "Subtitles were found for this title, but none matched your release or file filters.",
+          )
+        : createErrorResponse(
+            400,
+            "No subtitles found",
+            "No subtitles found for your desired parameters, sorry :(",
+          );
+      response.headers.set("Cache-Control", buildCacheControl(emptyTtl));
+      return { response, ttlSeconds: emptyTtl, tags };
+    }
+
+    const diagnostics = {
+      // Title lookups echo the ids they resolved to, so clients can tell which title matched
+      ...(lookup ? { resolved: lookup } : {}),
+      ...(verbose ? { sources: report.sources, resolvedImdbId: report.resolvedImdbId } : {}),
+    };
+    const payload =
+      isSeasonRequest(request) ?
+        { ...groupResultsByEpisode(transformedData, request.season), ...diagnostics }
+      : verbose || lookup ? { results: transformedData, ...diagnostics }
+      : transformedData;
+    const ttlSeconds =
+      transformedData.length > 0 ? getSearchCacheTtl(report.sources, releaseDate) : emptyTtl;
+
+    return {
+      response: new Response(JSON.stringify(payload), {
+        headers: {
+          "content-type": "application/json",
+          "Cache-Control": buildCacheControl(ttlSeconds),
+        },
+      }),
+      ttlSeconds,
+      tags,
+    };
+  } catch (e) {
+    return {
+      response: createErrorResponse(
+        500,
+        "Internal server error",
+        `An unexpected error occurred while processing your request. Reach out in the Discord for help. ${e}`,
+      ),
+      ttlSeconds: null,
+    };
+  }
+}
@@ -0,0 +1,503 @@
+/** @format */
+
+import type {
+  MovieHash,
+  RequestType,
+  ResponseType,
+  SearchReport,
+  SubtitleType,
+} from "~/utils/types";
+import {
+  createErrorResponse,
+  findBestTmdbMatch,
+  getTmdbReleaseYear,
+  searchTmdbMulti,
+  SUBTITLE_TYPES,
+  type TmdbSearchResult,
+} from "~/utils/utils";
+import { searchWithReport } from "~/utils/function";
+import { getImdbIdForTmdb, IdLookupError } from "~/utils/idMapping";
+import { parseMovieHash } from "~/utils/movieHash";
+import { parseLanguageList, selectPreferredLanguage } from "~/utils/language";
+import {
+  EDITION_LABELS,
+  normalizeEdition,
+  normalizeResolution,
+  parseReleaseName,
+  type ParsedRelease,
+} from "~/utils/release";
+import { getProviders } from "~/sources";
+import {
+  applyResultFilters,
+  selectRequestedEditions,
+  hasResultFilters,
+  toPublicResult,
+  type HearingImpairedMode,
+  type ResultFilters,
+} from "~/utils/results";
+import { dedupeResults } from "~/utils/dedupe";
+import {
+  SORT_MODES,
+  isSortMode,
+  rankResults,
+  type RankingContext,
+  type SortMode,
+} from "~/utils/ranking";
+
+// Null for an unknown id; throws an IdLookupError when TMDB cannot be reached
+export type ImdbResolver = (tmdbId: string, mediaType: "movie" | "tv") => Promise<string | null>;
+
+// A validated /search query, ready to run
+export type SearchQuery = {
+  request: RequestType;
+  filters: ResultFilters;
+  ranking: RankingContext;
+  sort: SortMode;
+  dedupe: boolean;
+  verbose: boolean;
+  // Set when the query named a title instead of an id
+  lookup: TitleLookup | null;
+};
+
+export type TitleLookup = {
+  tmdbId: string;
+  imdbId: string;
+  mediaType: "movie" | "tv";
+  title: string;
+  year: number | null;
+  release: ParsedRelease | null; // what was read from `filename`, when it named the title
+};
+
+export type PublicResult = ReturnType<typeof toPublicResult>;
+
+export const resolveImdbId: ImdbResolver = (tmdbId, mediaType) =>
+  getImdbIdForTmdb(tmdbId, mediaType);
+
+function parseFilterList(value: unknown): string[] {
+  if (!value) return [];
+  const rawValues = Array.isArray(value) ? value : [value];
+  return rawValues
+    .flatMap((entry) => (typeof entry === "string" ? entry.split(",") : []))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+// `hi=only|exclude|any` and `mt=only|exclude|any`; the older `hi=true` and `hi=false` mean
+// only and any
+function parseFlagMode(value: unknown): HearingImpairedMode | null {
+  if (value === undefined || value === "") return "any";
+  const normalized = String(value).trim().toLowerCase();
+  if (normalized === "only" || normalized === "true" || normalized === "1") return "only";
+  if (normalized === "exclude") return "exclude";
+  if (normalized === "any" || normalized === "false" || normalized === "0") return "any";
+  return null;
+}
+
+// Whether a query names something to search for: an id, or a title, file name or hash
+export function hasSearchTarget(query: Record<string, unknown> | null | undefined): boolean {
+  return Boolean(
+    query && (query.id || query.title || query.filename || query.fileName || query.hash),
+  );
+}
+
+/**
+ * Resolve `title`, `year` and `type` to the best matching TMDB entry, the same multi-search
+ * /api/tmdb/search uses.
+ */
+async function lookupTitle(
+  query: Record<string, unknown>,
+  hasSeason: boolean,
+): Promise<TmdbSearchResult | Response> {
+  const title = typeof query.title === "string" ? query.title.trim() : "";
+  const rawYear = typeof query.year === "string" ? query.year.trim() : undefined;
+  const rawType = typeof query.type === "string" ? query.type.toLowerCase() : undefined;
+
+  if (title.length < 2) {
+    return createErrorResponse(
+      400,
+      "Invalid title",
+      "Titles must be at least two characters long.",
+      "/search?title=The%20Martian&year=2015&type=movie",
+    );
+  }
+
+  if (rawYear !== undefined && !/^\d{4}$/.test(rawYear)) {
+    return createErrorResponse(
+      400,
+      "Invalid year",
+      "Year must be a four digit number.",
+      "/search?title=The%20Martian&year=2015",
+    );
+  }
+
+  if (rawType !== undefined && rawType !== "movie" && rawType !== "tv") {
+    return createErrorResponse(
+      400,
+      "Invalid type",
+      `Type must be either movie or tv, and can add subtitle types: ${SUBTITLE_TYPES.join(", ")}.`,
+      "/search?title=Severance&type=tv&season=1&episode=1",
+    );
+  }
+
+  // A season only makes sense for shows, so it narrows an untyped lookup
+  const mediaType = (rawType as "movie" | "tv" | undefined) ?? (hasSeason ? "tv" : undefined);
+  const results = await searchTmdbMulti(title);
+  if (!results) {
+    return createErrorResponse(
+      502,
+      "TMDB search failed",
+      "Unable to look up this title on TMDB at the moment. Please try again later.",
+    );
+  }
+
+  const match = findBestTmdbMatch(results, {
+    year: rawYear ? Number.parseInt(rawYear, 10) : undefined,
+    mediaType,
+  });
+  if (!match) {
+    return createErrorResponse(
+      404,
+      "Title not found",
+      `No ${mediaType ?? "movie or TV show"} on TMDB matches "${title}".`,
+      "/search?title=The%20Martian&year=2015&type=movie",
+    );
+  }
+
+  return match;
+}
+
+/**
+ * Parse and validate /search parameters. Returns an error Response for invalid input, in the
+ * same shape every other endpoint uses.
+ */
+export async function parseSearchQuery(
+  query: Record<string, unknown>,
+  resolveImdb: ImdbResolver = resolveImdbId,
+): Promise<SearchQuery | Response> {
+  if (!hasSearchTarget(query)) {
+    return createErrorResponse(
+      400,
+      "Bad request",
+      "No id, title, filename or hash parameter was provided. Please provide an id, or something to look the title up by.",
+      "/search?id=286217",
+    );
+  }
+
+  // `type` carries both the media type for title lookups and the subtitle types to keep,
+  // e.g. `type=tv,forced`
+  const typeValues = parseFilterList(query.type).map((value) => value.toLowerCase());
+  const subtitleTypes = typeValues.filter((value): value is SubtitleType =>
+    (SUBTITLE_TYPES as string[]).includes(value),
+  );
+  const mediaTypes = typeValues.filter((value) => !subtitleTypes.includes(value as SubtitleType));
+  query = { ...query, type: mediaTypes.length ? mediaTypes.join(",") : undefined };
+
+  // A lone file name stands in for the title, year, season and episode it carries. It still
+  // reaches the file filters below, so results are narrowed to that exact release.
+  let release: ParsedRelease | null = null;
+  const fileNames = [...parseFilterList(query.filename), ...parseFilterList(query.fileName)];
+  if (!query.id && !query.title && fileNames.length === 1) {
+    release = parseReleaseName(fileNames[0]);
+    if (!release.title) {
+      return createErrorResponse(
+        400,
+        "Unrecognised filename",
+        "No title could be read from the filename. Provide an id or title alongside it.",
+        "/search?filename=Show.Name.S02E05.1080p.AMZN.WEB-DL.DDP5.1.H.264-NTb.mkv",
+      );
+    }
+    query = {
+      ...query,
+      title: release.title,
+      year: query.year ?? (release.year ? String(release.year) : undefined),
+      type: query.type ?? (release.season !== null ? "tv" : "movie"),
+      season: query.season ?? (release.season !== null ? String(release.season) : undefined),
+      episode: query.episode ?? (release.episode !== null ? String(release.episode) : undefined),
+    };
+  }
+
+  let movieHash: MovieHash | undefined;
+  if (query.hash !== undefined || query.bytesize !== undefined) {
+    movieHash = parseMovieHash(query.hash, query.bytesize);
+    if (!movieHash) {
+      return createErrorResponse(
+        400,
+        "Invalid hash",
+        "hash must be a 16 digit hexadecimal OpenSubtitles hash, sent together with the file's bytesize.",
+        "/search?hash=8e245d9679d31e12&bytesize=12909756",
+      );
+    }
+  }
+
+  const season = query.season ? parseInt(query.season as string) : undefined;
+  const episode = query.episode ? parseInt(query.episode as string) : undefined;
+
+  // Ordered fallback list: later languages are only served when earlier ones have nothing
+  const rawLanguages = parseFilterList(query.language);
+  const languages = rawLanguages.length ? parseLanguageList(rawLanguages) : undefined;
+  const formats = query.format ? (query.format as string).toLowerCase().split(",") : undefined;
+  const encodings =
+    query.encoding ? (query.encoding as string).toLowerCase().split(",") : undefined;
+  const origins =
+    query.origin ?
+      (query.origin as string)
+        .toUpperCase()
+        .split(",")
+        .map((o) => o.trim())
+    : undefined;
+  const resolutions = parseFilterList(query.resolution).map(normalizeResolution);
+  const editions = parseFilterList(query.edition).map(normalizeEdition);
+  const groups = [...new Set(parseFilterList(query.group).map((group) => group.toLowerCase()))];
+  // Negative filters, dropped in the same stage as the release and origin filters
+  const rawExcludedLanguages = parseFilterList(query.excludeLanguage);
+  const excludeLanguages = parseLanguageList(rawExcludedLanguages);
+  const excludeSources = [
+    ...new Set(parseFilterList(query.excludeSource).map((entry) => entry.toLowerCase())),
+  ];
+  const excludeFormats = [
+    ...new Set(parseFilterList(query.excludeFormat).map((entry) => entry.toLowerCase())),
+  ];
+  const excludeReleases = [...new Set(parseFilterList(query.excludeRelease))];
+  const releaseFilters = [...new Set(parseFilterList(query.release))];
+  const rawFileFilters = [
+    ...parseFilterList(query.file),
+    ...parseFilterList(query.filename),
+    ...parseFilterList(query.fileName),
+  ];
+  const fileFilters = [...new Set(rawFileFilters)];
+
+  const hearingImpaired = parseFlagMode(query.hi);
+  const machineTranslated = parseFlagMode(query.mt);
+  const source = query.source ? (query.source as string).toLowerCase() : "opensubtitles";
+  // Collapse the same subtitle served by several sources unless `dedupe=false`
+  const dedupe = query.dedupe !== "false" && query.dedupe !== "0";
+  const sort = query.sort ? (query.sort as string).toLowerCase() : "relevance";
+  // Wrap results in `{ results, sources, resolvedImdbId }` with per-source diagnostics
+  const verbose = query.verbose === "1" || query.verbose === "true";
+  var imdbId: string | null | undefined;
+  var tmdbId: string | undefined;
+  var mediaType: "movie" | "tv" = season !== undefined ? "tv" : "movie";
+  var lookup: TitleLookup | null = null;
+
+  if (query.id) {
+    // all parameters must be lowercase and without spaces
+    const id = (query.id as string).toLowerCase();
+    if (id.includes("tt")) {
+      imdbId = id;
+    } else {
+      tmdbId = id;
+    }
+  } else if (query.title) {
+    const match = await lookupTitle(query, season !== undefined);
+    if (match instanceof Response) {
+      return match;
+    }
+    tmdbId = String(match.id);
+    mediaType = match.media_type as "movie" | "tv";
+    lookup = {
+      tmdbId,
+      imdbId: null,
+      mediaType,
+      title: match.title || match.name || "",
+      year: getTmdbReleaseYear(match),
+      release,
+    };
+  }
+
+  if (tmdbId) {
+    try {
+      imdbId = await resolveImdb(tmdbId, mediaType);
+    } catch (error) {
+      if (!(error instanceof IdLookupError)) throw error;
+      return createErrorResponse(
+        502,
+        "TMDB lookup failed",
+        "Unable to resolve this TMDB ID at the moment. Please try again later.",
+      );
+    }
+  }
+
+  // A file hash is enough on its own; sources that need an id are skipped
+  if ((!imdbId || imdbId === null) && !(movieHash && !query.id && !query.title)) {
+    return createErrorResponse(
+      400,
+      "Missing required parameter",
+      "The provided ID is invalid. Please provide a valid IMDb or TMDb ID.",
+    );
+  }
+
+  // A season on its own searches the whole season; an episode needs its season
+  if (!season && episode) {
+    return createErrorResponse(
+      400,
+      "Season is required",
+      "An episode was given without a season. Provide both, or only a season to search the whole season.",
+      "/search?id=tt0944947&season=1&episode=1",
+    );
+  }
+
+  if (languages === null) {
+    return createErrorResponse(
+      400,
+      "Invalid language format",
+      "Languages must be ISO 639 codes, BCP-47 tags such as pt-BR or zh-Hant, or language names. They can be alone or in a fallback list.",
+      "/search?id=tt0111161&language=pt-BR,por,English",
+    );
+  }
+
+  if (hearingImpaired === null) {
+    return createErrorResponse(
+      400,
+      "Invalid hi",
+      "hi must be only, exclude or any.",
+      "/search?id=tt0111161&hi=exclude",
+    );
+  }
+
+  if (machineTranslated === null) {
+    return createErrorResponse(
+      400,
+      "Invalid mt",
+      "mt must be only, exclude or any.",
+      "/search?id=tt0111161&mt=exclude",
+    );
+  }
+
+  if (excludeLanguages === null) {
+    return createErrorResponse(
+      400,
+      "Invalid language format",
+      "Excluded languages must be ISO 639 codes, BCP-47 tags or language names, alone or in a list.",
+      "/search?id=tt0111161&excludeLanguage=pt-BR,es",
+    );
+  }
+
+  const providerNames = getProviders().map((provider) => provider.name);
+  if (!excludeSources.every((s) => providerNames.includes(s))) {
+    return createErrorResponse(
+      400,
+      "Invalid excluded source",
+      `Excluded sources must be one or more of the following: ${providerNames.join(", ")}.`,
+      "/search?id=tt0111161&source=all&excludeSource=subf2m",
+    );
+  }
+
+  if (source) {
+    const validSources = [...providerNames, "all"];
+    const sourceList = source.split(",").map((s) => s.trim().toLowerCase());
+
+    if (!sourceList.every((s) => validSources.includes(s))) {
+      return createErrorResponse(
+        400,
+        "Invalid source",
+        `Source must be one or more of the following: ${validSources.join(", ")}.`,
+        "/search?id=tt0111161&source=subdl,subf2m,opensubtitles,podnapisi,animetosho,gestdown",
+      );
+    }
+  }
+
+  if (resolutions.some((resolution) => resolution === null)) {
+    return createErrorResponse(
+      400,
+      "Invalid resolution",
+      "Resolutions must look like 2160p, 1080p or 720p, or be 4k. They can be in a list.",
+      "/search?id=tt0111161&resolution=2160p,1080p",
+    );
+  }
+
+  if (editions.some((edition) => edition === null)) {
+    return createErrorResponse(
+      400,
+      "Invalid edition",
+      `Editions must be one or more of the following: ${EDITION_LABELS.join(", ")}.`,
+      "/search?id=tt0167260&edition=extended",
+    );
+  }
+
+  if (!isSortMode(sort)) {
+    return createErrorResponse(
+      400,
+      "Invalid sort",
+      `Sort must be one of the following: ${SORT_MODES.join(", ")}.`,
+      "/search?id=tt0111161&sort=downloads",
+    );
+  }
+
+  const request: RequestType = {
+    languages,
+    formats,
+    encodings,
+    imdbId,
+    movieHash,
+    season,
+    episode,
+    source,
+    releaseFilters: releaseFilters.length ? releaseFilters : undefined,
+    fileFilters: fileFilters.length ? fileFilters : undefined,
+  };
+  const filters: ResultFilters = {
+    releaseFilters: request.releaseFilters,
+    fileFilters: request.fileFilters,
+    origins,
+    resolutions: resolutions.length ? [...new Set(resolutions)] : undefined,
+    groups: groups.length ? groups : undefined,
+    languages,
+    hearingImpaired: hearingImpaired === "any" ? undefined : hearingImpaired,
+    machineTranslated: machineTranslated === "any" ? undefined : machineTranslated,
+    types: subtitleTypes.length ? [...new Set(subtitleTypes)] : undefined,
+    excludeLanguages: excludeLanguages.length ? excludeLanguages : undefined,
+    excludeSources: excludeSources.length ? excludeSources : undefined,
+    excludeFormats: excludeFormats.length ? excludeFormats : undefined,
+    excludeReleases: excludeReleases.length ? excludeReleases : undefined,
+  };
+  const ranking: RankingContext = {
+    hearingImpaired: hearingImpaired === "only",
+    origins,
+    hasReleaseFilters: hasResultFilters(filters),
+    editions: editions.length ? [...new Set(editions)] : undefined,
+  };
+
+  if (lookup) {
+    lookup.imdbId = imdbId;
+  }
+
+  return { request, filters, ranking, sort, dedupe, verbose, lookup };
+}
+
+/**
+ * Run a parsed query through search, filtering, ranking and dedupe, returning results in
+ * their public shape.
+ */
+export async function runSearchQuery(
+  parsed: SearchQuery,
+  host: string,
+): Promise<{ results: PublicResult[]; report: SearchReport }> {
+  const startTime = Date.now();
+  const report = await searchWithReport(parsed.request);
+  console.log(`Execution time: ${Date.now() - startTime}ms`);
+
+  return { results: finalizeResults(report.results, parsed, host), report };
+}
+
+/**
+ * Turn provider results into what a search responds with: filters, language and edition
+ * selection, ranking, dedupe and public URLs. Streamed batches skip the language fallback, as
+ * picking the first listed language that has results needs every source to have answered.
+ */
+export function finalizeResults(
+  results: ResponseType[],
+  parsed: SearchQuery,
+  host: string,
+  { preferLanguage = true }: { preferLanguage?: boolean } = {},
+): PublicResult[] {
+  const filtered = applyResultFilters(results, parsed.filters);
+  const selected = selectRequestedEditions(
+    preferLanguage ? selectPreferredLanguage(filtered, parsed.filters.languages) : filtered,
+    parsed.ranking.editions,
+  );
+  // Rank before deduping so each group keeps its best scored entry as the primary
+  const ranked = rankResults(selected, parsed.sort, parsed.ranking);
+  const deduped = parsed.dedupe ? dedupeResults(ranked) : ranked;
+
+  return deduped.map((item) => toPublicResult(item, host));
+}
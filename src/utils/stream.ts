@@ -0,0 +1,98 @@
+/** @format */
+
+import type { SourceReport } from "~/utils/types";
+import { search } from "~/utils/function";
+import { finalizeResults, type SearchQuery } from "~/utils/searchQuery";
+
+export type StreamMode = "sse" | "ndjson";
+
+/**
+ * Pick the streaming flavour requested with `?stream=sse|ndjson` or an `Accept` header.
+ * Returns null for a regular JSON response.
+ */
+export function getStreamMode(
+  query: Record<string, unknown>,
+  accept?: string | null,
+): StreamMode | null {
+  const requested = typeof query.stream === "string" ? query.stream.toLowerCase() : "";
+  if (requested === "sse") return "sse";
+  if (requested === "ndjson") return "ndjson";
+
+  const acceptHeader = accept?.toLowerCase() ?? "";
+  if (acceptHeader.includes("application/x-ndjson")) return "ndjson";
+  if (acceptHeader.includes("text/event-stream")) return "sse";
+  return null;
+}
+
+function encodeEvent(mode: StreamMode, type: string, payload: Record<string, unknown>): string {
+  if (mode === "sse") {
+    return `event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+  }
+  return `${JSON.stringify({ type, ...payload })}\n`;
+}
+
+/**
+ * Run a search and stream each provider's batch as soon as it settles, followed by a summary
+ * event. Batches go through the same post-search steps as the JSON response, each on its own:
+ * a language fallback list cannot wait for every source, so batches keep all listed languages,
+ * and duplicates are only merged within a batch.
+ */
+export function streamSearch(parsed: SearchQuery, mode: StreamMode, host: string): Response {
+  const encoder = new TextEncoder();
+  // Set once the client goes away; the search keeps running but nothing more is written
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (type: string, payload: Record<string, unknown>) => {
+        if (cancelled) return;
+        try {
+          controller.enqueue(encoder.encode(encodeEvent(mode, type, payload)));
+        } catch {
+          // The stream was closed or errored underneath us
+          cancelled = true;
+        }
+      };
+
+      const sources: SourceReport[] = [];
+      let total = 0;
+      const startTime = Date.now();
+
+      try {
+        await search(parsed.request, {
+          onSourceComplete(report, results) {
+            const batch = finalizeResults(results, parsed, host, { preferLanguage: false });
+            sources.push(report);
+            total += batch.length;
+            send("results", { source: report.name, status: report.status, results: batch });
+          },
+        });
+
+        send("summary", { total, durationMs: Date.now() - startTime, sources });
+      } catch (error) {
+        console.error("[Stream] Search failed:", error);
+        send("error", { message: error instanceof Error ? error.message : String(error), sources });
+      } finally {
+        if (!cancelled) {
+          try {
+            controller.close();
+          } catch {
+            // Already closed by a disconnect
+          }
+        }
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type":
+        mode === "sse" ? "text/event-stream; charset=utf-8" : "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
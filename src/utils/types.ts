@@ -3,15 +3,39 @@
 export type RequestType = (
   | { tmdbId: number; imdbId?: null }
   | { imdbId: string; tmdbId?: null }
+  | { imdbId?: null; tmdbId?: null; movieHash: MovieHash } // hash-only lookups
 ) & {
-  languages?: string | string[]; // ISO639 locale
+  movieHash?: MovieHash; // OpenSubtitles hash of the video file the subtitles are for
+  languages?: string | string[]; // canonical BCP-47 tags, e.g. "en" or "pt-BR"
   formats?: string | string[]; // subtitle format (srt, ass, vtt)
   encodings?: string | string[]; // subtitle file's encoding (UTF-8, ASCII)
-  hearingImpaired?: boolean; // include hearing impaired subtitle
   source?: string | string[]; // Optional: The source to search (e.g., 'subdl')
   releaseFilters?: string[]; // release/group filters to prioritize exact matches
   fileFilters?: string[]; // file-based filters derived from filenames
-} & ({ season: number; episode: number } | { season?: null; episode?: null });
+} & (
+    | { season: number; episode: number }
+    | { season: number; episode?: null } // whole season
+    | { season?: null; episode?: null }
+  );
+
+// Technical details a release name carries, shared by every result as `releaseInfo`
+export type ReleaseInfo = {
+  source: string | null; // e.g. "WEB-DL", "BluRay", "HDTV"
+  streamingService: string | null; // e.g. "Amazon", "Netflix"
+  resolution: string | null; // e.g. "1080p"
+  videoCodec: string | null; // e.g. "H.264", "H.265"
+  audio: string | null; // e.g. "DD+ 5.1 Atmos"
+  edition: string | null; // e.g. "Extended", "Director's Cut"
+  group: string | null; // release group, e.g. "NTb"
+  isProper: boolean;
+  isRepack: boolean;
+};
+
+// OpenSubtitles 64-bit video hash and the file size it was computed for
+export type MovieHash = {
+  hash: string; // 16 lowercase hex digits
+  byteSize: number;
+};
 
 export type ResponseType = {
   id: string; // the ID of the subtitle according to open subs
@@ -30,8 +54,21 @@ export type ResponseType = {
   origin?: string | null;
   matchedRelease?: string | null; // actual release from provider that matched a filter
   matchedFilter?: string | null; // user-supplied filter value that produced the match
+  alternates?: ResponseType[]; // the same subtitle as served by other sources
+  downloads?: number | null; // download count, when the provider exposes one
+  uploadedAt?: string | null; // ISO 8601 upload date, when the provider exposes one
+  score?: number; // relevance score (0-100) assigned by the ranking stage
+  season?: number | null; // season the subtitle belongs to, for TV results
+  episode?: number | null; // episode number; null for season packs or when unknown
+  matchedBy?: "hash" | null; // "hash" when the source matched the video file hash
+  releaseInfo?: ReleaseInfo | null; // parsed from the release and file names
+  type?: SubtitleType; // what the track covers, from names and, once downloaded, its body
+  machineTranslated?: boolean; // machine or AI translated, per comments, names or body
 };
 
+// "forced" only translates foreign dialogue; "signs" covers on-screen text and songs
+export type SubtitleType = "full" | "forced" | "signs" | "sdh" | "commentary";
+
 // JSON parsing types
 export type Subtitle = {
   ISO639: string;
@@ -45,6 +82,14 @@ export type Subtitle = {
   MovieReleaseName?: string;
   SubFileName?: string;
   SubAuthorComment?: string;
+  SubDownloadsCnt?: string;
+  SubAddDate?: string;
+  SeriesSeason?: string;
+  SeriesEpisode?: string;
+  MatchedBy?: string;
+  SubForeignPartsOnly?: string;
+  SubAutoTranslation?: string;
+  UserNickName?: string;
 };
 
 export type SubtitleInput = {
@@ -59,6 +104,14 @@ export type SubtitleInput = {
   MovieReleaseName?: unknown;
   SubFileName?: unknown;
   SubAuthorComment?: unknown;
+  SubDownloadsCnt?: unknown;
+  SubAddDate?: unknown;
+  SeriesSeason?: unknown;
+  SeriesEpisode?: unknown;
+  MatchedBy?: unknown;
+  SubForeignPartsOnly?: unknown;
+  SubAutoTranslation?: unknown;
+  UserNickName?: unknown;
 };
 
 // Unzip types
@@ -128,3 +181,66 @@ export interface SubdlPageProps {
   };
   groupedSubtitles: Record<string, SubdlSubtitle[]>;
 }
+
+// Source provider types
+export type MediaKind = "movie" | "tv";
+
+export type ProviderCapabilities = Record<MediaKind, boolean> & {
+  hash: boolean; // can look subtitles up by video file hash
+  season: boolean; // can fetch a whole season in one search (season without episode)
+};
+
+// Path segments of a `/c/{vrf}/id/{fileId}` download link, without the provider suffix
+export type DownloadLocator = {
+  vrf: string;
+  fileId: string;
+};
+
+export type DownloadTarget = {
+  url: string;
+  headers: Record<string, string>;
+  fetchMode: "proxy" | "direct";
+  container?: "zip" | "xz"; // archive the subtitle ships in, unpacked by the download route
+  extractFetchMode?: "proxy" | "direct"; // fetch mode used when unzipping, defaults to fetchMode
+  format?: string; // format to serve when the payload is passed through as-is
+};
+
+export interface SubtitleProvider {
+  name: string; // identifier used by `?source=` and `ResponseType.source`
+  displayName: string;
+  capabilities: ProviderCapabilities;
+  enabled: boolean; // can be overridden in sourcesConfig.ts
+  defaultFor: Record<MediaKind, boolean>; // queried when the request names no source
+  // Search budget, when not SEARCH_SOURCE_TIMEOUT_MS; SEARCH_TIMEOUT_{NAME}_MS overrides either
+  timeoutMs?: number;
+  reliability: number; // 0-1, how often this source's results are correct; used for ranking
+  flagsHearingImpaired?: boolean; // marks HI subtitles itself; others are also checked by content
+  cacheTtlSeconds?: number; // caps how long searches it answers are cached
+  downloadSuffix?: string; // e.g. ".subdl"; the provider without one handles bare file ids
+  statusSamples?: Partial<Record<MediaKind, string[]>>; // query strings probed by /status
+  search: (request: RequestType) => Promise<ResponseType[]>;
+  buildDownloadLocator: (item: ResponseType) => DownloadLocator | null;
+  resolveDownload: (params: DownloadLocator & { format?: string }) => DownloadTarget | null;
+}
+
+// Search diagnostics
+export type SourceStatus = "ok" | "timeout" | "error";
+
+export type SourceReport = {
+  name: string;
+  status: SourceStatus;
+  count: number; // results returned by the provider before any filtering
+  durationMs: number;
+  error?: string;
+};
+
+export type SearchReport = {
+  results: ResponseType[];
+  sources: SourceReport[]; // one entry per queried provider, in query order
+  resolvedImdbId: string | null; // IMDb id searched, after any TMDB conversion
+};
+
+export type SearchOptions = {
+  // Called as soon as each provider settles, in completion order
+  onSourceComplete?: (report: SourceReport, results: ResponseType[]) => void;
+};
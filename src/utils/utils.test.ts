@@ -0,0 +1,51 @@
+/** @format */
+
+import { describe, expect, it } from "vitest";
+import { detectMachineTranslation, isHearingImpairedName } from "~/utils/utils";
+
+describe("isHearingImpairedName", () => {
+  it("reads spelled out markers anywhere", () => {
+    expect(isHearingImpairedName("English SDH")).toBe(true);
+    expect(isHearingImpairedName("Movie.2019.Hearing.Impaired.srt")).toBe(true);
+    expect(isHearingImpairedName("English (Closed Captions)")).toBe(true);
+  });
+
+  it("reads bracketed and delimited HI and CC tags", () => {
+    expect(isHearingImpairedName("English [HI]")).toBe(true);
+    expect(isHearingImpairedName("English (CC)")).toBe(true);
+    expect(isHearingImpairedName("Movie.2019.1080p.WEB.HI.srt")).toBe(true);
+    expect(isHearingImpairedName("movie_2019_hi")).toBe(true);
+  });
+
+  it("ignores HI and CC as ordinary words", () => {
+    expect(isHearingImpairedName("Hi Mom")).toBe(false);
+    expect(isHearingImpairedName("Hi.Mom.2021.1080p.WEB")).toBe(false);
+    expect(isHearingImpairedName("Say hi to CC Baxter")).toBe(false);
+    expect(isHearingImpairedName("Hitch.2005.720p")).toBe(false);
+    expect(isHearingImpairedName(null)).toBe(false);
+  });
+});
+
+describe("detectMachineTranslation", () => {
+  it("reads bracketed and standalone MT tags", () => {
+    expect(detectMachineTranslation({ releases: ["Movie.2019.1080p.WEB [MT]"] })).toBe(true);
+    expect(detectMachineTranslation({ releases: ["Movie 2019 (MTL)"] })).toBe(true);
+    expect(detectMachineTranslation({ releases: ["Movie.2019.MT.1080p.WEB-GRP"] })).toBe(true);
+    expect(detectMachineTranslation({ releases: ["Movie.2019.1080p.MT-GRP"] })).toBe(true);
+  });
+
+  it("does not read a release group called MT as a tag", () => {
+    expect(detectMachineTranslation({ releases: ["Movie.2019.1080p.WEB-DL-MT"] })).toBe(false);
+    expect(detectMachineTranslation({ releases: ["Movie.2019.1080p.BluRay.x264-MTL"] })).toBe(
+      false,
+    );
+    expect(detectMachineTranslation({ releases: ["Empty.Nest.2019.720p"] })).toBe(false);
+  });
+
+  it("reads comments and uploaders", () => {
+    expect(detectMachineTranslation({ comments: ["Translated by Google"] })).toBe(true);
+    expect(detectMachineTranslation({ uploaders: ["SubTranslateBot"] })).toBe(true);
+    expect(detectMachineTranslation({ comments: ["Synced by hand"], flagged: false })).toBe(false);
+    expect(detectMachineTranslation({ flagged: true })).toBe(true);
+  });
+});
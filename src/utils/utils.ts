@@ -1,13 +1,13 @@
 /** @format */
 
 import numberToWords from "number-to-words";
-import type { ResponseType } from "~/utils/types";
+import type { ResponseType, SubtitleType } from "~/utils/types";
 
 const { toWords } = numberToWords;
 
 const TMDB_API_KEYS = ["xxx", "xxx"];
 
-function pickTmdbApiKey(): string {
+export function pickTmdbApiKey(): string {
   return TMDB_API_KEYS[Math.floor(Math.random() * TMDB_API_KEYS.length)];
 }
 
@@ -97,120 +97,90 @@ export const getMovieDetails = async (tmdbId: string, mediaType: "movie" | "tv"
   }
 };
 
-const imdbTitleCache = new Map<string, string | null>();
+export type TmdbSearchResult = {
+  id: number;
+  media_type: string;
+  title?: string;
+  name?: string;
+  original_title?: string;
+  original_name?: string;
+  overview?: string;
+  release_date?: string;
+  first_air_date?: string;
+  poster_path?: string | null;
+  backdrop_path?: string | null;
+  popularity?: number;
+  vote_average?: number;
+};
 
 /**
- * Get movie name from IMDB ID using TMDb API
+ * Search TMDB movies and TV shows by title. Returns null when TMDB answers with an error status.
  */
-export const getMovieNameFromImdb = async (imdbId: string): Promise<string | null> => {
-  if (imdbTitleCache.has(imdbId)) {
-    return imdbTitleCache.get(imdbId) ?? null;
-  }
-
-  const apiKey = pickTmdbApiKey();
-
-  try {
-    // Try movie first
-    let findUrl = `https://api.themoviedb.org/3/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
-    const response = await fetch(findUrl);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    // Check for movie results
-    if (data.movie_results && data.movie_results.length > 0) {
-      const title = data.movie_results[0].title;
-      imdbTitleCache.set(imdbId, title);
-      return title;
-    }
-
-    // Check for TV show results
-    if (data.tv_results && data.tv_results.length > 0) {
-      const name = data.tv_results[0].name;
-      imdbTitleCache.set(imdbId, name);
-      return name;
-    }
-
-    console.warn(`No movie/TV show found for IMDB ID: ${imdbId}`);
-    imdbTitleCache.set(imdbId, null);
-    return null;
-  } catch (e) {
-    console.error(`Error getting movie name from IMDB: ${e}`);
-    imdbTitleCache.delete(imdbId);
+export const searchTmdbMulti = async (
+  searchTerm: string,
+  options: { locale?: string; signal?: AbortSignal } = {},
+): Promise<TmdbSearchResult[] | null> => {
+  const tmdbUrl = new URL("https://api.themoviedb.org/3/search/multi");
+  tmdbUrl.searchParams.set("query", searchTerm);
+  tmdbUrl.searchParams.set("api_key", pickTmdbApiKey());
+  tmdbUrl.searchParams.set("include_adult", "false");
+  tmdbUrl.searchParams.set("language", options.locale ?? "en-US");
+
+  const response = await fetch(tmdbUrl.toString(), { signal: options.signal });
+  if (!response.ok) {
+    console.error(`TMDB search failed with status ${response.status}`);
     return null;
   }
+
+  const payload = await response.json();
+  const results: TmdbSearchResult[] = Array.isArray(payload?.results) ? payload.results : [];
+  return results.filter(
+    (item) => item && (item.media_type === "movie" || item.media_type === "tv"),
+  );
 };
 
-export interface TvIdentifierResult {
-  tmdbId: number | null;
-  tvdbId: number | null;
-  name: string | null;
-  firstAirDate: string | null;
+export function getTmdbReleaseYear(item: TmdbSearchResult): number | null {
+  const year = Number.parseInt((item.release_date || item.first_air_date || "").slice(0, 4), 10);
+  return Number.isInteger(year) ? year : null;
 }
 
-export const getTvIdentifiersFromImdb = async (imdbId: string): Promise<TvIdentifierResult> => {
-  if (!imdbId) {
-    return { tmdbId: null, tvdbId: null, name: null, firstAirDate: null };
-  }
-
-  const apiKey = pickTmdbApiKey();
-
-  try {
-    const findUrl = `https://api.themoviedb.org/3/find/${imdbId}?api_key=${apiKey}&external_source=imdb_id`;
-    const response = await fetch(findUrl);
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const tvResults = Array.isArray(data.tv_results) ? data.tv_results : [];
-
-    if (tvResults.length === 0) {
-      return { tmdbId: null, tvdbId: null, name: null, firstAirDate: null };
-    }
+/**
+ * Pick the title a user most likely meant: an exact year beats a year off by one (release
+ * dates differ between countries), and popularity breaks ties.
+ */
+export function findBestTmdbMatch(
+  results: TmdbSearchResult[],
+  options: { year?: number; mediaType?: "movie" | "tv" } = {},
+): TmdbSearchResult | null {
+  const candidates =
+    options.mediaType ? results.filter((item) => item.media_type === options.mediaType) : results;
+
+  const scoreYear = (item: TmdbSearchResult) => {
+    if (!options.year) return 0;
+    const releaseYear = getTmdbReleaseYear(item);
+    if (releaseYear === null) return 0;
+    const distance = Math.abs(releaseYear - options.year);
+    return (
+      distance === 0 ? 2
+      : distance === 1 ? 1
+      : -1
+    );
+  };
 
-    const primary = tvResults[0];
-    const tmdbId = typeof primary.id === "number" ? primary.id : null;
-    let tvdbId: number | null = null;
-
-    if (tmdbId !== null) {
-      try {
-        const externalIdsUrl = `https://api.themoviedb.org/3/tv/${tmdbId}/external_ids?api_key=${apiKey}`;
-        const externalIdsResponse = await fetch(externalIdsUrl);
-
-        if (externalIdsResponse.ok) {
-          const externalIdsData = await externalIdsResponse.json();
-          if (typeof externalIdsData.tvdb_id === "number") {
-            tvdbId = externalIdsData.tvdb_id;
-          } else if (typeof externalIdsData.tvdb_id === "string") {
-            const parsed = Number.parseInt(externalIdsData.tvdb_id, 10);
-            tvdbId = Number.isNaN(parsed) ? null : parsed;
-          }
-        } else {
-          console.warn(
-            `[TMDB] Failed to fetch external IDs for TMDB ID ${tmdbId}: ${externalIdsResponse.status} ${externalIdsResponse.statusText}`,
-          );
-        }
-      } catch (externalError) {
-        console.error(`[TMDB] Error retrieving external IDs for TMDB ID ${tmdbId}:`, externalError);
-      }
+  let best: TmdbSearchResult | null = null;
+  let bestYearScore = -Infinity;
+  for (const item of candidates) {
+    const yearScore = scoreYear(item);
+    if (
+      yearScore > bestYearScore ||
+      (yearScore === bestYearScore && (item.popularity ?? 0) > (best?.popularity ?? 0))
+    ) {
+      best = item;
+      bestYearScore = yearScore;
     }
-
-    return {
-      tmdbId,
-      tvdbId,
-      name: typeof primary.name === "string" ? primary.name : null,
-      firstAirDate: typeof primary.first_air_date === "string" ? primary.first_air_date : null,
-    };
-  } catch (error) {
-    console.error(`[TMDB] Error resolving TV identifiers for IMDb ID ${imdbId}:`, error);
-    return { tmdbId: null, tvdbId: null, name: null, firstAirDate: null };
   }
-};
+  return best;
+}
 
 export function capitalizeFirstLetter(string: string): string {
   return string.charAt(0).toUpperCase() + string.slice(1);
@@ -311,6 +281,155 @@ export function normalizeEncodingValue(encodingRaw: string | null | undefined):
   return normalized;
 }
 
+// 53-bit string hash (cyrb53); fast, non-cryptographic fingerprint
+export function hashString(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Accepts unix timestamps (seconds or milliseconds) and date strings; naive strings are UTC
+export function normalizeUploadDate(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null;
+
+  let date: Date;
+  if (typeof value === "number" || (typeof value === "string" && /^\d+$/.test(value.trim()))) {
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric) || numeric <= 0) return null;
+    date = new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+  } else if (typeof value === "string") {
+    const trimmed = value.trim();
+    const naive = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?$/.test(trimmed);
+    date = new Date(naive ? `${trimmed.replace(" ", "T")}Z` : trimmed);
+  } else {
+    return null;
+  }
+
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function normalizeDownloadCount(value: unknown): number | null {
+  const numeric = typeof value === "string" ? Number.parseInt(value, 10) : value;
+  return typeof numeric === "number" && Number.isFinite(numeric) && numeric >= 0 ? numeric : null;
+}
+
+// Track types a subtitle can be, as accepted by the `type` parameter
+export const SUBTITLE_TYPES: SubtitleType[] = ["full", "forced", "signs", "sdh", "commentary"];
+
+// Name markers for each track type, checked in order
+const SUBTITLE_TYPE_PATTERNS: [SubtitleType, RegExp][] = [
+  ["commentary", /\bcommentary\b/i],
+  [
+    "forced",
+    /\bforced\b|\bforeign[ ._-]?(parts?|only)\b|\bfpo\b|\bnon[ ._-]?english[ ._-]?parts\b/i,
+  ],
+  // Bare "signs" is left alone so a film called Signs is not mistaken for a signs track
+  [
+    "signs",
+    /\bsigns?[ ._-]*(&|and|\+)[ ._-]*songs?\b|\bsongs?[ ._-]*(&|and|\+)[ ._-]*signs?\b|\bsigns[ ._-]?only\b|[[(]signs[\])]/i,
+  ],
+];
+
+/**
+ * Classify a subtitle track from its release, file or attachment names, e.g. "Signs & Songs"
+ * is `signs`. Sources that flag forced or HI tracks pass those flags along.
+ */
+export function detectSubtitleType(
+  names: (string | null | undefined)[],
+  flags: { forced?: boolean; hearingImpaired?: boolean } = {},
+): SubtitleType {
+  const text = names.filter(Boolean).join(" ");
+  for (const [type, pattern] of SUBTITLE_TYPE_PATTERNS) {
+    if (type === "forced" && flags.forced) return type;
+    if (pattern.test(text)) return type;
+  }
+  return flags.hearingImpaired ? "sdh" : "full";
+}
+
+// Comments and names owning up to machine or AI translation
+const MACHINE_TRANSLATION_PATTERN =
+  /machine[ ._-]?translat|auto(matic(ally)?)?[ ._-]?translat|google[ ._-]?translat|\bdeepl\b|\b(chat)?gpt(-?\d)?\b|\bai[ ._-]?(translat|generated|subs?\b)|translated (by|with|using) (an? )?(ai|machine|google|bing|yandex)\b/i;
+// Release name tags such as "[MT]", "(MTL)" or ".MT.". A "-MT" suffix names the release group.
+const MACHINE_TRANSLATION_RELEASE_PATTERN = /[[(]MTL?[\])]|[\s._]MTL?(?=[\s._-])/;
+// Uploaders that post translation bot output
+const MACHINE_TRANSLATION_UPLOADER_PATTERN =
+  /translat(e|or|ion)?[ ._-]?bot|\bauto[ ._-]?(sub|trans)|\bmt[ ._-]?bot\b|\bgpt\b|\bdeepl\b/i;
+
+export function mentionsMachineTranslation(value: string | null | undefined): boolean {
+  return Boolean(value && MACHINE_TRANSLATION_PATTERN.test(value));
+}
+
+/**
+ * Whether a subtitle's author comments, uploader or release names mark it as machine or AI
+ * translated. Sources that flag it themselves pass `flagged`.
+ */
+export function detectMachineTranslation(signals: {
+  comments?: (string | null | undefined)[];
+  uploaders?: (string | null | undefined)[];
+  releases?: (string | null | undefined)[];
+  flagged?: boolean;
+}): boolean {
+  if (signals.flagged) return true;
+  const comments = [...(signals.comments ?? []), ...(signals.releases ?? [])];
+  return (
+    comments.some(mentionsMachineTranslation) ||
+    (signals.releases ?? []).some(
+      (release) => release && MACHINE_TRANSLATION_RELEASE_PATTERN.test(` ${release} `),
+    ) ||
+    (signals.uploaders ?? []).some(
+      (uploader) => uploader && MACHINE_TRANSLATION_UPLOADER_PATTERN.test(uploader),
+    )
+  );
+}
+
+// Release and file name markers for hearing impaired subtitles. The short HI and CC tags also
+// spell ordinary words ("Hi Mom"), so they only count bracketed or as a delimited tag after
+// the start of the name, as in "[HI]" or "Movie.2019.HI.srt".
+const HEARING_IMPAIRED_NAME_PATTERN =
+  /\b(?:sdh|hearing[ ._-]?impaired|closed[ ._-]?captions?)\b|[[(](?:hi|cc)[\])]|(?<=\S)[._-](?:hi|cc)(?=[._-]|$)/i;
+
+export function isHearingImpairedName(value: string | null | undefined): boolean {
+  return Boolean(value && HEARING_IMPAIRED_NAME_PATTERN.test(value));
+}
+
+// A whole-season search: a season was given without an episode
+export function isSeasonRequest(request: { season?: number | null; episode?: number | null }) {
+  return request.season != null && request.episode == null;
+}
+
+/**
+ * Find the episode a release or file name belongs to within `season`, from S01E02, 1x02 or
+ * "Episode 2" style markers. Returns null for season packs and names without a marker.
+ */
+export function detectEpisodeNumber(
+  texts: (string | null | undefined)[],
+  season: number,
+): number | null {
+  for (const text of texts) {
+    if (!text) continue;
+    const patterns = [
+      /\bs(\d{1,2})[ ._-]?e(\d{1,3})(?![\d-]|[ ._]?e\d)/i,
+      /\b(\d{1,2})x(\d{1,3})\b/i,
+    ];
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match && Number.parseInt(match[1], 10) === season) {
+        return Number.parseInt(match[2], 10);
+      }
+    }
+    const episodeMatch = text.match(/\b(?:episode|ep)[ ._-]?(\d{1,3})\b/i);
+    if (episodeMatch) return Number.parseInt(episodeMatch[1], 10);
+  }
+  return null;
+}
+
 export function formatEncodingForOutput(encoding: string): string {
   if (encoding === "unknown") {
     return "Unknown";
@@ -334,33 +453,6 @@ export function formatEncodingForOutput(encoding: string): string {
   return segments.join("-");
 }
 
-export const convertTmdbToImdb = async (tmdbId: string, mediaType: "movie" | "tv" = "movie") => {
-  const apiKey = pickTmdbApiKey();
-  const url = `https://api.themoviedb.org/3/${mediaType}/${tmdbId}/external_ids?api_key=${apiKey}`;
-
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-
-    if (!data.imdb_id) {
-      console.warn(`No IMDB ID found for TMDB ID: ${tmdbId}`);
-    }
-
-    return data.imdb_id || null;
-  } catch (e) {
-    console.error(`Error converting TMDB to IMDB: ${e}`);
-
-    return createErrorResponse(
-      500,
-      "TMDB to IMDB Conversion Error",
-      "Failed to convert TMDB ID to IMDB ID. Please check your TMDB API key and the provided TMDB ID.",
-    );
-  }
-};
-
 export const createErrorResponse = (
   code: number,
   message: string,
@@ -506,6 +598,32 @@ export const fetchWithTimeout = (
   return Promise.race([fetchPromise, timeoutPromise]);
 };
 
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Race a promise against a timer. The underlying work is not cancelled, its result is
+ * simply ignored once the deadline has passed.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new TimeoutError(`${label} timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+  });
+
+  return Promise.race([promise, timeoutPromise]).finally(() => {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+    }
+  });
+}
+
 export async function safeCancelReadableStream(stream?: ReadableStream | null): Promise<void> {
   if (!stream || typeof stream.cancel !== "function") {
     return;
@@ -742,23 +860,28 @@ export function applyReleaseAndFileFilters(
   return filtered;
 }
 
-export function extractOrigin(text: string | null | undefined): string | null {
-  if (!text) return null;
-
-  const patterns: [RegExp, string][] = [
-    [/\b(?:BluRay|Blu-Ray|BDRip|BRRip|BD)\b/i, "BluRay"],
-    [/\b(?:WEB-DL|WEB-RIP|WEBRip|WEB|AMZN|NF|NFLX|DSNP|HMAX|HULU|iTunes|WEB-CAP|WEBCap)\b/i, "WEB"],
-    [/\b(?:HDTV|PDTV|DSR|DSRip)\b/i, "HDTV"],
-    [/\b(?:DVDRip|DVD|NTSC|PAL|DVD5|DVD9)\b/i, "DVD"],
-    [/\b(?:CAM|CamRip|TS|HDCAM|HD-TS|TELESYNC|TC|TELECINE|SCr|SCREENER|DVDSCR|R5)\b/i, "CAM"],
-    [/\b(?:HDRip)\b/i, "HDRip"],
-  ];
-
-  for (const [regex, origin] of patterns) {
-    if (regex.test(text)) {
-      return origin;
-    }
+/**
+ * Drop results whose release group, release names or file name carry any of `excludes` as
+ * whole words, e.g. `excludeRelease=YTS` removes `Movie.2019.1080p.WEBRip-YTS`.
+ */
+export function applyReleaseExclusions(
+  items: ResponseType[],
+  excludes: string[] | undefined,
+): ResponseType[] {
+  const excluded = (excludes ?? []).map(normalizeReleaseValue).filter((value) => value.length > 0);
+  if (excluded.length === 0) {
+    return items;
   }
 
-  return null;
+  return items.filter((item) => {
+    if (excluded.includes(normalizeReleaseValue(item.releaseInfo?.group))) {
+      return false;
+    }
+    const candidates = buildCandidateDescriptors(item).flatMap(
+      (candidate) => candidate.normalizedValues,
+    );
+    return !candidates.some((candidate) =>
+      excluded.some((value) => ` ${candidate} `.includes(` ${value} `)),
+    );
+  });
 }